@@ -0,0 +1,75 @@
+#!/usr/bin/env bun
+import { parseArgs } from 'node:util'
+import { ACCOUNTS_USAGE, runAccountsCommand } from './cli/accounts.js'
+import { startGateway } from './gateway/server.js'
+import { loadConfig } from './plugin/config/index.js'
+
+const USAGE = `Usage: opencode-kiro <command> [options]
+
+Commands:
+  serve       Start a local OpenAI/Anthropic-compatible gateway backed by the Kiro account pool
+  accounts    List and manage the accounts stored in kiro.db (see: opencode-kiro accounts --help)
+
+Options:
+  --host <host>        Interface to bind (default: gateway_host, 127.0.0.1)
+  --port <port>        Port to listen on (default: gateway_port, 8787)
+  --api-key <key>      Require this bearer key on every request (default: gateway_api_key)
+  --directory <dir>    Project directory for .opencode/kiro.json (default: cwd)
+`
+
+async function main(): Promise<void> {
+  const { positionals, values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'api-key': { type: 'string' },
+      directory: { type: 'string' },
+      all: { type: 'boolean' },
+      json: { type: 'boolean' },
+      label: { type: 'string' },
+      priority: { type: 'string' },
+      allow: { type: 'string', multiple: true },
+      deny: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' }
+    },
+    allowPositionals: true
+  })
+
+  const command = positionals[0]
+  if (values.help || !command) {
+    console.log(command === 'accounts' ? ACCOUNTS_USAGE : USAGE)
+    return
+  }
+
+  const config = loadConfig(values.directory || process.cwd())
+
+  if (command === 'serve') {
+    const port = values.port ? Number(values.port) : config.gateway_port
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid port: ${values.port}`)
+    }
+    const gateway = await startGateway({
+      ...config,
+      gateway_host: values.host || config.gateway_host,
+      gateway_port: port,
+      gateway_api_key: values['api-key'] || config.gateway_api_key
+    })
+    console.log(`Kiro gateway listening on ${gateway.url}`)
+    return
+  }
+
+  if (command === 'accounts') {
+    await runAccountsCommand(positionals.slice(1), values, config)
+    return
+  }
+
+  console.error(`Unknown command: ${command}\n`)
+  console.log(USAGE)
+  process.exitCode = 1
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : String(e))
+  process.exit(1)
+})
@@ -0,0 +1,341 @@
+import { AccountCache } from '../infrastructure/database/account-cache.js'
+import { AccountRepository } from '../infrastructure/database/account-repository.js'
+import { accessTokenExpired } from '../kiro/auth.js'
+import { AccountManager, toAuthDetails } from '../plugin/accounts.js'
+import type { KiroConfig } from '../plugin/config/index.js'
+import { isPermanentRefreshError } from '../plugin/health.js'
+import { kiroDb } from '../plugin/storage/sqlite.js'
+import { refreshAccountToken } from '../plugin/token.js'
+import type { AccountPoolSettings, ManagedAccount } from '../plugin/types.js'
+import { fetchUsageLimits, updateAccountQuota } from '../plugin/usage.js'
+
+export const ACCOUNTS_USAGE = `Usage: opencode-kiro accounts <action> [account] [options]
+
+Actions:
+  list                 List accounts with health, quota and token expiry (default)
+  show <account>       Show details and the usage breakdown of one account
+  enable <account>     Allow the account to be selected again
+  disable <account>    Keep the account but never select it
+  remove <account>     Delete the account from kiro.db
+  reset <account>      Clear failures, unhealthy reason and rate limit
+  refresh <account>    Force an access token refresh
+  sync <account>       Fetch usage and quota from Kiro now
+  prefer <account>     Use this account first with the sticky strategy ("none" to clear)
+  set <account>        Change the label, priority tier or model lists of an account
+
+<account> matches an id (or a unique id prefix), an email or a label.
+
+Options:
+  --all                Apply refresh or sync to every enabled account
+  --json               Print list or show output as JSON
+  --label <label>      set: account label ("" to clear)
+  --priority <n>       set: priority tier, lower tiers are used first
+  --allow <patterns>   set: comma-separated allowed model patterns, * as wildcard ("" to clear)
+  --deny <patterns>    set: comma-separated denied model patterns, * as wildcard ("" to clear)
+`
+
+const ACTIONS = new Set([
+  'list',
+  'show',
+  'enable',
+  'disable',
+  'remove',
+  'reset',
+  'refresh',
+  'sync',
+  'prefer',
+  'set'
+])
+
+interface AccountsOptions {
+  all?: boolean
+  json?: boolean
+  label?: string
+  priority?: string
+  allow?: string[]
+  deny?: string[]
+}
+
+export async function runAccountsCommand(
+  args: string[],
+  options: AccountsOptions,
+  config: KiroConfig
+): Promise<void> {
+  const [action = 'list', query] = args
+  if (!ACTIONS.has(action)) {
+    throw new Error(`Unknown accounts action: ${action}\n\n${ACCOUNTS_USAGE}`)
+  }
+  const repository = new AccountRepository(new AccountCache(60000))
+  const manager = await AccountManager.loadFromDisk(
+    config.account_selection_strategy,
+    config.session_affinity_ttl_ms
+  )
+  const accounts = manager.getAccounts()
+
+  if (action === 'list') {
+    if (options.json) console.log(JSON.stringify(accounts.map(describeAccount), null, 2))
+    else printTable(accounts)
+    return
+  }
+
+  if (action === 'refresh' || action === 'sync') {
+    const targets = options.all
+      ? accounts.filter((a) => !a.disabled)
+      : [findAccount(accounts, query)]
+    let failed = 0
+    for (const acc of targets) {
+      try {
+        if (action === 'refresh') await refreshToken(manager, acc)
+        else await syncUsage(manager, repository, acc, config.token_expiry_buffer_ms)
+        console.log(`${action === 'refresh' ? 'Refreshed' : 'Synced'} ${formatName(acc)}`)
+      } catch (e) {
+        failed++
+        console.error(`${formatName(acc)}: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    }
+    await repository.batchSave(manager.getAccounts())
+    if (failed) process.exitCode = 1
+    return
+  }
+
+  if (action === 'prefer' && query === 'none') {
+    manager.setPreferred(null)
+    console.log('Cleared the preferred account')
+    return
+  }
+
+  const acc = findAccount(accounts, query)
+  switch (action) {
+    case 'show':
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            { ...describeAccount(acc), usageBreakdown: kiroDb.getUsageBreakdown(acc.id) },
+            null,
+            2
+          )
+        )
+      } else {
+        printDetails(acc)
+      }
+      return
+    case 'enable':
+    case 'disable':
+      manager.setDisabled(acc, action === 'disable')
+      console.log(`${action === 'disable' ? 'Disabled' : 'Enabled'} ${formatName(acc)}`)
+      return
+    case 'remove':
+      await repository.delete(acc.id)
+      console.log(`Removed ${formatName(acc)}`)
+      return
+    case 'reset':
+      manager.resetHealth(acc)
+      console.log(`Reset health of ${formatName(acc)}`)
+      return
+    case 'prefer':
+      manager.setPreferred(acc)
+      console.log(`Preferred account: ${formatName(acc)}`)
+      if (config.account_selection_strategy !== 'sticky') {
+        console.log(
+          `Note: account_selection_strategy is "${config.account_selection_strategy}"; the preference only applies to "sticky".`
+        )
+      }
+      return
+    case 'set':
+      manager.setPoolSettings(acc, parsePoolSettings(acc, options))
+      console.log(`Updated ${formatName(acc)}`)
+      return
+  }
+}
+
+function findAccount(accounts: ManagedAccount[], query: string | undefined): ManagedAccount {
+  if (!query) throw new Error('Missing <account> argument (id, id prefix, email or label)')
+  const q = query.toLowerCase()
+  const exact = accounts.filter(
+    (a) => a.id === query || a.email.toLowerCase() === q || a.label?.toLowerCase() === q
+  )
+  const matches = exact.length ? exact : accounts.filter((a) => a.id.startsWith(q))
+  if (matches.length === 1) return matches[0]!
+  if (!matches.length) throw new Error(`No account matches "${query}"`)
+  throw new Error(
+    `"${query}" matches ${matches.length} accounts: ${matches.map(formatName).join(', ')}`
+  )
+}
+
+function parsePoolSettings(acc: ManagedAccount, options: AccountsOptions): AccountPoolSettings {
+  const { label, priority, allow, deny } = options
+  if (label === undefined && priority === undefined && !allow && !deny) {
+    throw new Error('Nothing to set: pass --label, --priority, --allow or --deny')
+  }
+  if (priority !== undefined && !/^-?\d+$/.test(priority.trim())) {
+    throw new Error(`Invalid priority: ${priority}`)
+  }
+  return {
+    label: label === undefined ? acc.label : label.trim() || undefined,
+    priority: priority === undefined ? acc.priority : Number(priority),
+    allowedModels: allow ? parsePatterns(allow) : acc.allowedModels,
+    deniedModels: deny ? parsePatterns(deny) : acc.deniedModels
+  }
+}
+
+function parsePatterns(values: string[]): string[] {
+  return values
+    .flatMap((v) => v.split(','))
+    .map((p) => p.trim())
+    .filter(Boolean)
+}
+
+async function refreshToken(manager: AccountManager, acc: ManagedAccount): Promise<void> {
+  try {
+    const auth = await refreshAccountToken(acc, Number.MAX_SAFE_INTEGER)
+    if (auth) manager.updateFromAuth(acc, auth)
+  } catch (e) {
+    if (isPermanentRefreshError(e)) manager.markUnhealthy(acc, e.message)
+    throw e
+  }
+}
+
+async function syncUsage(
+  manager: AccountManager,
+  repository: AccountRepository,
+  acc: ManagedAccount,
+  expiryBufferMs: number
+): Promise<void> {
+  let auth = toAuthDetails(acc)
+  if (accessTokenExpired(auth, expiryBufferMs)) {
+    const refreshed = await refreshAccountToken(acc, Date.now() + expiryBufferMs)
+    if (refreshed) {
+      manager.updateFromAuth(acc, refreshed)
+      auth = refreshed
+    }
+  }
+  const usage = await fetchUsageLimits(auth)
+  updateAccountQuota(acc, usage, manager)
+  await repository.saveUsageBreakdown(acc.id, usage.breakdown)
+}
+
+function describeAccount(a: ManagedAccount) {
+  return {
+    id: a.id,
+    email: a.email,
+    label: a.label,
+    authMethod: a.authMethod,
+    region: a.region,
+    priority: a.priority || 0,
+    preferred: !!a.preferred,
+    disabled: !!a.disabled,
+    status: formatStatus(a),
+    isHealthy: a.isHealthy,
+    failCount: a.failCount,
+    unhealthyReason: a.unhealthyReason,
+    recoveryTime: a.recoveryTime,
+    rateLimitResetTime: a.rateLimitResetTime || undefined,
+    usedCount: a.usedCount || 0,
+    limitCount: a.limitCount || 0,
+    quotaResetAt: a.quotaResetAt,
+    expiresAt: a.expiresAt,
+    allowedModels: a.allowedModels,
+    deniedModels: a.deniedModels,
+    lastUsed: a.lastUsed || undefined
+  }
+}
+
+function printTable(accounts: ManagedAccount[]): void {
+  if (!accounts.length) {
+    console.log('No accounts. Run "opencode auth login" or "kiro-cli login" to add one.')
+    return
+  }
+  const rows = [
+    ['', 'ID', 'EMAIL', 'LABEL', 'METHOD', 'PRIO', 'STATUS', 'QUOTA', 'RESETS', 'TOKEN'],
+    ...accounts.map((a) => [
+      a.preferred ? '*' : '',
+      a.id.slice(0, 8),
+      a.email,
+      a.label || '-',
+      a.authMethod,
+      String(a.priority || 0),
+      formatStatus(a),
+      formatQuota(a),
+      a.quotaResetAt ? formatRelative(a.quotaResetAt) : '-',
+      formatExpiry(a.expiresAt)
+    ])
+  ]
+  const widths = rows[0]!.map((_, i) => Math.max(...rows.map((r) => r[i]!.length)))
+  for (const r of rows) {
+    const line = r.map((c, i) => c.padEnd(widths[i]!)).join('  ')
+    console.log(line.trimEnd())
+  }
+}
+
+function printDetails(a: ManagedAccount): void {
+  const lines: [string, string | undefined][] = [
+    ['ID', a.id],
+    ['Email', a.email],
+    ['Label', a.label],
+    ['Auth method', a.authMethod],
+    ['Region', a.region],
+    ['OIDC region', a.oidcRegion],
+    ['Start URL', a.startUrl],
+    ['Profile ARN', a.profileArn],
+    ['Priority', String(a.priority || 0)],
+    ['Preferred', a.preferred ? 'yes' : 'no'],
+    ['Status', formatStatus(a)],
+    ['Fail count', String(a.failCount || 0)],
+    ['Recovery', a.recoveryTime ? formatRelative(a.recoveryTime) : undefined],
+    ['Quota', formatQuota(a)],
+    ['Quota resets', a.quotaResetAt ? formatRelative(a.quotaResetAt) : undefined],
+    ['Access token', formatExpiry(a.expiresAt)],
+    ['Allowed models', a.allowedModels?.join(', ')],
+    ['Denied models', a.deniedModels?.join(', ')],
+    ['Last used', a.lastUsed ? formatRelative(a.lastUsed) : undefined]
+  ]
+  for (const [k, v] of lines) if (v) console.log(`${`${k}:`.padEnd(16)}${v}`)
+
+  const breakdown = kiroDb.getUsageBreakdown(a.id)
+  if (!breakdown.length) return
+  console.log('\nUsage breakdown:')
+  for (const b of breakdown) {
+    const reset = b.nextResetAt ? `, resets ${formatRelative(b.nextResetAt)}` : ''
+    const trial = b.freeTrialLimit
+      ? `, free trial ${b.freeTrialUsage || 0}/${b.freeTrialLimit}`
+      : ''
+    console.log(`  ${b.resourceType}: ${b.currentUsage}/${b.usageLimit}${reset}${trial}`)
+  }
+}
+
+function formatName(a: ManagedAccount): string {
+  return `${a.label ? `${a.label} <${a.email}>` : a.email} (${a.id.slice(0, 8)})`
+}
+
+function formatStatus(a: ManagedAccount): string {
+  if (a.disabled) return 'disabled'
+  if (!a.isHealthy) return `unhealthy: ${a.unhealthyReason || 'unknown'}`
+  if (a.rateLimitResetTime && a.rateLimitResetTime > Date.now()) {
+    return `rate-limited until ${formatRelative(a.rateLimitResetTime)}`
+  }
+  if (a.failCount) return `healthy (${a.failCount} recent failures)`
+  return 'healthy'
+}
+
+function formatQuota(a: ManagedAccount): string {
+  if (!a.limitCount) return a.usedCount ? String(a.usedCount) : '-'
+  return `${a.usedCount || 0}/${a.limitCount} (${Math.round(((a.usedCount || 0) / a.limitCount) * 100)}%)`
+}
+
+function formatExpiry(expiresAt: number): string {
+  return expiresAt > Date.now() ? `expires ${formatRelative(expiresAt)}` : 'expired'
+}
+
+function formatRelative(at: number): string {
+  const diff = at - Date.now()
+  const abs = Math.abs(diff)
+  const text =
+    abs < 60000
+      ? `${Math.round(abs / 1000)}s`
+      : abs < 3600000
+        ? `${Math.round(abs / 60000)}m`
+        : abs < 172800000
+          ? `${Math.round(abs / 3600000)}h`
+          : `${Math.round(abs / 86400000)}d`
+  return diff >= 0 ? `in ${text}` : `${text} ago`
+}
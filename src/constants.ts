@@ -1,5 +1,5 @@
 import { RegionSchema } from './plugin/config/schema'
-import type { KiroRegion } from './plugin/types'
+import type { KiroModelInfo, KiroRegion } from './plugin/types'
 
 const VALID_REGIONS: readonly KiroRegion[] = Object.values(RegionSchema.Values)
 
@@ -40,6 +40,7 @@ export const KIRO_CONSTANTS = {
   REFRESH_IDC_URL: 'https://oidc.{{region}}.amazonaws.com/token',
   BASE_URL: 'https://q.{{region}}.amazonaws.com/generateAssistantResponse',
   USAGE_LIMITS_URL: 'https://q.{{region}}.amazonaws.com/getUsageLimits',
+  LIST_MODELS_URL: 'https://q.{{region}}.amazonaws.com/ListAvailableModels',
   DEFAULT_REGION: 'us-east-1' as KiroRegion,
   AXIOS_TIMEOUT: 120000,
   USER_AGENT: 'KiroIDE',
@@ -49,33 +50,103 @@ export const KIRO_CONSTANTS = {
   ORIGIN_AI_EDITOR: 'AI_EDITOR'
 }
 
-export const MODEL_MAPPING: Record<string, string> = {
-  'claude-haiku-4-5': 'CLAUDE_HAIKU_4_5_20251001_V1_0',
-  'claude-haiku-4-5-thinking': 'CLAUDE_HAIKU_4_5_20251001_V1_0',
-  'claude-sonnet-4-5': 'CLAUDE_SONNET_4_5_20250929_V1_0',
-  'claude-sonnet-4-5-thinking': 'CLAUDE_SONNET_4_5_20250929_V1_0',
-  'claude-sonnet-4-5-1m': 'CLAUDE_SONNET_4_5_20250929_LONG_V1_0',
-  'claude-sonnet-4-5-1m-thinking': 'CLAUDE_SONNET_4_5_20250929_LONG_V1_0',
-  'claude-sonnet-4-6': 'claude-sonnet-4.6',
-  'claude-sonnet-4-6-thinking': 'claude-sonnet-4.6',
-  'claude-sonnet-4-6-1m': 'claude-sonnet-4.6',
-  'claude-sonnet-4-6-1m-thinking': 'claude-sonnet-4.6',
-  'claude-opus-4-5': 'CLAUDE_OPUS_4_5_20251101_V1_0',
-  'claude-opus-4-5-thinking': 'CLAUDE_OPUS_4_5_20251101_V1_0',
-  'claude-opus-4-6': 'claude-opus-4.6',
-  'claude-opus-4-6-thinking': 'claude-opus-4.6',
-  'claude-opus-4-6-1m': 'claude-opus-4.6',
-  'claude-opus-4-6-1m-thinking': 'claude-opus-4.6',
-  'claude-sonnet-4': 'CLAUDE_SONNET_4_20250514_V1_0',
-  'claude-3-7-sonnet': 'CLAUDE_3_7_SONNET_20250219_V1_0',
-  'nova-swe': 'AGI_NOVA_SWE_V1_5',
-  'gpt-oss-120b': 'OPENAI_GPT_OSS_120B_1_0',
-  'qwen3-coder-480b': 'QWEN3_CODER_480B_A35B_1_0',
-  'minimax-m2': 'MINIMAX_MINIMAX_M2',
-  'kimi-k2-thinking': 'MOONSHOT_KIMI_K2_THINKING'
+export const DEFAULT_CONTEXT_WINDOW = 200000
+
+function claudeModel(
+  kiroModelId: string,
+  name: string,
+  overrides: Partial<KiroModelInfo> = {}
+): KiroModelInfo {
+  return {
+    kiroModelId,
+    name,
+    contextWindow: DEFAULT_CONTEXT_WINDOW,
+    maxOutput: 64000,
+    thinking: 'optional',
+    input: ['text', 'image', 'pdf'],
+    toolCalling: true,
+    charsPerToken: 3.5,
+    ...overrides
+  }
+}
+
+function openWeightModel(
+  kiroModelId: string,
+  name: string,
+  overrides: Partial<KiroModelInfo> = {}
+): KiroModelInfo {
+  return {
+    kiroModelId,
+    name,
+    contextWindow: 131072,
+    maxOutput: 32768,
+    thinking: 'none',
+    input: ['text'],
+    toolCalling: true,
+    charsPerToken: 4,
+    ...overrides
+  }
+}
+
+function thinkingVariant(model: KiroModelInfo): KiroModelInfo {
+  return { ...model, name: `${model.name} Thinking`, thinking: 'always' }
+}
+
+const HAIKU_4_5 = claudeModel('CLAUDE_HAIKU_4_5_20251001_V1_0', 'Claude Haiku 4.5', {
+  input: ['text', 'image']
+})
+const SONNET_4_5 = claudeModel('CLAUDE_SONNET_4_5_20250929_V1_0', 'Claude Sonnet 4.5')
+const SONNET_4_5_1M = claudeModel(
+  'CLAUDE_SONNET_4_5_20250929_LONG_V1_0',
+  'Claude Sonnet 4.5 (1M Context)',
+  { contextWindow: 1000000 }
+)
+const SONNET_4_6 = claudeModel('claude-sonnet-4.6', 'Claude Sonnet 4.6')
+const SONNET_4_6_1M = claudeModel('claude-sonnet-4.6', 'Claude Sonnet 4.6 (1M Context)', {
+  contextWindow: 1000000
+})
+const OPUS_4_5 = claudeModel('CLAUDE_OPUS_4_5_20251101_V1_0', 'Claude Opus 4.5')
+const OPUS_4_6 = claudeModel('claude-opus-4.6', 'Claude Opus 4.6')
+const OPUS_4_6_1M = claudeModel('claude-opus-4.6', 'Claude Opus 4.6 (1M Context)', {
+  contextWindow: 1000000
+})
+
+export const MODEL_REGISTRY: Record<string, KiroModelInfo> = {
+  'claude-haiku-4-5': HAIKU_4_5,
+  'claude-haiku-4-5-thinking': thinkingVariant(HAIKU_4_5),
+  'claude-sonnet-4-5': SONNET_4_5,
+  'claude-sonnet-4-5-thinking': thinkingVariant(SONNET_4_5),
+  'claude-sonnet-4-5-1m': SONNET_4_5_1M,
+  'claude-sonnet-4-5-1m-thinking': thinkingVariant(SONNET_4_5_1M),
+  'claude-sonnet-4-6': SONNET_4_6,
+  'claude-sonnet-4-6-thinking': thinkingVariant(SONNET_4_6),
+  'claude-sonnet-4-6-1m': SONNET_4_6_1M,
+  'claude-sonnet-4-6-1m-thinking': thinkingVariant(SONNET_4_6_1M),
+  'claude-opus-4-5': OPUS_4_5,
+  'claude-opus-4-5-thinking': thinkingVariant(OPUS_4_5),
+  'claude-opus-4-6': OPUS_4_6,
+  'claude-opus-4-6-thinking': thinkingVariant(OPUS_4_6),
+  'claude-opus-4-6-1m': OPUS_4_6_1M,
+  'claude-opus-4-6-1m-thinking': thinkingVariant(OPUS_4_6_1M),
+  'claude-sonnet-4': claudeModel('CLAUDE_SONNET_4_20250514_V1_0', 'Claude Sonnet 4'),
+  'claude-3-7-sonnet': claudeModel('CLAUDE_3_7_SONNET_20250219_V1_0', 'Claude 3.7 Sonnet'),
+  'nova-swe': openWeightModel('AGI_NOVA_SWE_V1_5', 'Nova SWE', { contextWindow: 200000 }),
+  'gpt-oss-120b': openWeightModel('OPENAI_GPT_OSS_120B_1_0', 'GPT OSS 120B'),
+  'qwen3-coder-480b': openWeightModel('QWEN3_CODER_480B_A35B_1_0', 'Qwen3 Coder 480B', {
+    contextWindow: 262144,
+    maxOutput: 65536
+  }),
+  'minimax-m2': openWeightModel('MINIMAX_MINIMAX_M2', 'MiniMax M2', {
+    contextWindow: 204800,
+    maxOutput: 131072
+  }),
+  'kimi-k2-thinking': openWeightModel('MOONSHOT_KIMI_K2_THINKING', 'Kimi K2 Thinking', {
+    contextWindow: 262144,
+    thinking: 'always'
+  })
 }
 
-export const SUPPORTED_MODELS = Object.keys(MODEL_MAPPING)
+export const SUPPORTED_MODELS = Object.keys(MODEL_REGISTRY)
 
 export const KIRO_AUTH_SERVICE = {
   ENDPOINT: 'https://prod.{{region}}.auth.desktop.kiro.dev',
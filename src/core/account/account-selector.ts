@@ -1,12 +1,18 @@
 import type { AccountRepository } from '../../infrastructure/database/account-repository'
 import type { AccountManager } from '../../plugin/accounts'
-import type { ManagedAccount } from '../../plugin/types'
+import { KiroValidationError } from '../../plugin/errors'
+import * as logger from '../../plugin/logger'
+import type { AccountSelectionStrategy, ManagedAccount } from '../../plugin/types'
+import type { ConcurrencyLimiter } from './concurrency-limiter'
 
 type ToastFunction = (message: string, variant: 'info' | 'warning' | 'success' | 'error') => void
 
+const QUEUE_TOAST_THRESHOLD_MS = 5000
+
 interface AccountSelectorConfig {
   auto_sync_kiro_cli: boolean
-  account_selection_strategy: 'sticky' | 'round-robin' | 'lowest-usage'
+  account_selection_strategy: AccountSelectionStrategy
+  max_concurrent_per_account: number
 }
 
 export class AccountSelector {
@@ -18,10 +24,15 @@ export class AccountSelector {
     private accountManager: AccountManager,
     private config: AccountSelectorConfig,
     private syncFromKiroCli: () => Promise<void>,
-    private repository: AccountRepository
+    private repository: AccountRepository,
+    private limiter: ConcurrencyLimiter
   ) {}
 
-  async selectHealthyAccount(showToast: ToastFunction): Promise<ManagedAccount | null> {
+  async selectHealthyAccount(
+    showToast: ToastFunction,
+    sessionKey?: string,
+    model?: string
+  ): Promise<ManagedAccount | null> {
     this.checkCircuitBreaker()
 
     let count = this.accountManager.getAccountCount()
@@ -36,9 +47,41 @@ export class AccountSelector {
       throw new Error('No accounts')
     }
 
-    let acc = this.accountManager.getCurrentOrNext()
+    if (this.accountManager.getAccounts().every((a) => a.disabled)) {
+      throw new Error('All accounts are disabled (run: opencode-kiro accounts enable <account>)')
+    }
+
+    if (model && !this.accountManager.hasAccountForModel(model)) {
+      throw new KiroValidationError(`No account in the pool is allowed to use ${model}`, 'model')
+    }
+
+    if (!this.limiter.isEnabled()) {
+      return this.pickAccount(showToast, sessionKey, model)
+    }
+
+    const leave = await this.limiter.enterQueue()
+    try {
+      while (true) {
+        await this.waitForSlot(showToast, sessionKey, model)
+        const acc = await this.pickAccount(showToast, sessionKey, model)
+        if (acc ? this.limiter.acquire(acc) : !this.isSaturated(sessionKey, model)) return acc
+      }
+    } finally {
+      leave()
+    }
+  }
+
+  private async pickAccount(
+    showToast: ToastFunction,
+    sessionKey?: string,
+    model?: string
+  ): Promise<ManagedAccount | null> {
+    let acc = this.accountManager.getCurrentOrNext(sessionKey, model, (a) =>
+      this.limiter.hasCapacity(a)
+    )
 
     if (!acc) {
+      if (this.isSaturated(sessionKey, model)) return null
       this.circuitBreakerTrips++
       const wait = this.accountManager.getMinWaitTime()
       if (wait > 0 && wait < 30000) {
@@ -56,6 +99,42 @@ export class AccountSelector {
     return acc
   }
 
+  private isSaturated(sessionKey?: string, model?: string): boolean {
+    return this.accountManager.isSaturated(model, (a) => this.limiter.hasCapacity(a), sessionKey)
+  }
+
+  private async waitForSlot(
+    showToast: ToastFunction,
+    sessionKey?: string,
+    model?: string
+  ): Promise<void> {
+    const start = Date.now()
+    let waits = 0
+    let toasted = false
+    while (this.isSaturated(sessionKey, model)) {
+      const waited = Date.now() - start
+      if (waits++ === 0) {
+        logger.log('Waiting for a free account slot', {
+          queueDepth: this.limiter.getQueueDepth(),
+          maxConcurrent: this.config.max_concurrent_per_account
+        })
+      } else if (!toasted && waited >= QUEUE_TOAST_THRESHOLD_MS) {
+        toasted = true
+        showToast(
+          `All accounts busy: waited ${Math.round(waited / 1000)}s for a free slot (${this.limiter.getQueueDepth()} more queued)`,
+          'info'
+        )
+      }
+      await this.limiter.waitForRelease()
+    }
+    if (waits > 0) {
+      logger.log('Acquired account slot', {
+        waitMs: Date.now() - start,
+        queueDepth: this.limiter.getQueueDepth()
+      })
+    }
+  }
+
   private async handleEmptyAccounts(): Promise<void> {
     await this.syncFromKiroCli()
     this.repository.invalidateCache()
@@ -0,0 +1,107 @@
+import { randomUUID } from 'node:crypto'
+import * as logger from '../../plugin/logger'
+import { kiroDb } from '../../plugin/storage/sqlite'
+import type { ManagedAccount } from '../../plugin/types'
+
+interface ConcurrencyLimiterConfig {
+  max_concurrent_per_account: number
+}
+
+const RECHECK_INTERVAL_MS = 1000
+// Leases are kept alive by a heartbeat so a crashed process frees its slots within a minute.
+const LEASE_TTL_MS = 60000
+const LEASE_RENEW_INTERVAL_MS = 20000
+
+export class ConcurrencyLimiter {
+  private leases = new Map<string, string[]>()
+  private tail: Promise<void> = Promise.resolve()
+  private waiting = 0
+  private releaseWaiters: Array<() => void> = []
+  private renewTimer?: ReturnType<typeof setInterval>
+
+  constructor(private config: ConcurrencyLimiterConfig) {
+    if (this.isEnabled()) process.once('exit', () => kiroDb.releaseProcessLeases())
+  }
+
+  isEnabled(): boolean {
+    return this.config.max_concurrent_per_account > 0
+  }
+
+  getQueueDepth(): number {
+    return this.waiting
+  }
+
+  hasCapacity(account: ManagedAccount): boolean {
+    if (!this.isEnabled()) return true
+    return kiroDb.countAccountLeases(account.id) < this.config.max_concurrent_per_account
+  }
+
+  acquire(account: ManagedAccount): boolean {
+    if (!this.isEnabled()) return true
+    const leaseId = randomUUID()
+    const acquired = kiroDb.tryAcquireAccountLease(
+      leaseId,
+      account.id,
+      this.config.max_concurrent_per_account,
+      Date.now() + LEASE_TTL_MS
+    )
+    if (acquired) {
+      this.leases.set(account.id, [...(this.leases.get(account.id) || []), leaseId])
+      this.startRenewing()
+    }
+    return acquired
+  }
+
+  release(account: ManagedAccount): void {
+    const held = this.leases.get(account.id)
+    const leaseId = held?.pop()
+    if (!leaseId) return
+    if (!held!.length) this.leases.delete(account.id)
+    if (!this.leases.size) this.stopRenewing()
+    kiroDb.releaseAccountLease(leaseId)
+    const waiters = this.releaseWaiters
+    this.releaseWaiters = []
+    for (const wake of waiters) wake()
+  }
+
+  async enterQueue(): Promise<() => void> {
+    let leave!: () => void
+    const turn = new Promise<void>((resolve) => (leave = resolve))
+    const ahead = this.tail
+    this.tail = ahead.then(() => turn)
+    this.waiting++
+    try {
+      await ahead
+    } finally {
+      this.waiting--
+    }
+    return leave
+  }
+
+  waitForRelease(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, RECHECK_INTERVAL_MS)
+      this.releaseWaiters.push(() => {
+        clearTimeout(timer)
+        resolve()
+      })
+    })
+  }
+
+  private startRenewing(): void {
+    if (this.renewTimer) return
+    this.renewTimer = setInterval(() => {
+      try {
+        kiroDb.renewProcessLeases(Date.now() + LEASE_TTL_MS)
+      } catch (e) {
+        logger.warn('Failed to renew account leases', e)
+      }
+    }, LEASE_RENEW_INTERVAL_MS)
+    this.renewTimer.unref?.()
+  }
+
+  private stopRenewing(): void {
+    clearInterval(this.renewTimer)
+    this.renewTimer = undefined
+  }
+}
@@ -32,6 +32,7 @@ export class UsageTracker {
       const u = await fetchUsageLimits(auth)
       updateAccountQuota(account, u, this.accountManager)
       await this.repository.batchSave(this.accountManager.getAccounts())
+      await this.repository.saveUsageBreakdown(account.id, u.breakdown)
     } catch (e: any) {
       if (attempt < this.config.usage_sync_max_retries) {
         await this.sleep(1000 * Math.pow(2, attempt))
@@ -2,6 +2,7 @@ import type { AuthHook } from '@opencode-ai/plugin'
 import type { AccountRepository } from '../../infrastructure/database/account-repository.js'
 import { RegionSchema } from '../../plugin/config/schema.js'
 import * as logger from '../../plugin/logger.js'
+import { DesktopAuthMethod } from './desktop-auth-method.js'
 import { IdcAuthMethod } from './idc-auth-method.js'
 
 export class AuthHandler {
@@ -38,6 +39,7 @@ export class AuthHandler {
     }
 
     const idcMethod = new IdcAuthMethod(this.config, this.repository, this.accountManager)
+    const desktopMethod = new DesktopAuthMethod(this.config, this.repository, this.accountManager)
 
     return [
       {
@@ -73,6 +75,22 @@ export class AuthHandler {
           }
         ],
         authorize: (inputs?: any) => idcMethod.authorize(inputs)
+      },
+      {
+        label: 'Kiro social login (Google / GitHub)',
+        type: 'oauth' as const,
+        prompts: [
+          {
+            type: 'select' as const,
+            key: 'provider',
+            message: 'Sign in to Kiro with',
+            options: [
+              { label: 'Google', value: 'google' },
+              { label: 'GitHub', value: 'github' }
+            ]
+          }
+        ],
+        authorize: (inputs?: any) => desktopMethod.authorize(inputs)
       }
     ]
   }
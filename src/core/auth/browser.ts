@@ -0,0 +1,16 @@
+import { exec } from 'node:child_process'
+import * as logger from '../../plugin/logger.js'
+
+export const openBrowser = (url: string) => {
+  const escapedUrl = url.replace(/"/g, '\\"')
+  const platform = process.platform
+  const cmd =
+    platform === 'win32'
+      ? `cmd /c start "" "${escapedUrl}"`
+      : platform === 'darwin'
+        ? `open "${escapedUrl}"`
+        : `xdg-open "${escapedUrl}"`
+  exec(cmd, (error) => {
+    if (error) logger.warn(`Browser error: ${error.message}`)
+  })
+}
@@ -0,0 +1,141 @@
+import type { AuthOuathResult } from '@opencode-ai/plugin'
+import { extractRegionFromArn } from '../../constants.js'
+import type { AccountRepository } from '../../infrastructure/database/account-repository.js'
+import type { KiroSocialProvider } from '../../kiro/oauth-desktop.js'
+import { authorizeKiroDesktop, exchangeKiroDesktopCode } from '../../kiro/oauth-desktop.js'
+import type { AccountManager } from '../../plugin/accounts.js'
+import { createDeterministicAccountId } from '../../plugin/accounts.js'
+import { getErrorHtml, getSuccessHtml } from '../../plugin/auth-page.js'
+import type { KiroConfig } from '../../plugin/config/index.js'
+import * as logger from '../../plugin/logger.js'
+import type { ManagedAccount } from '../../plugin/types.js'
+import { fetchUsageLimits } from '../../plugin/usage.js'
+import { openBrowser } from './browser.js'
+import { serveOnFreePort } from './local-server.js'
+
+const CALLBACK_PATH = '/oauth/callback'
+const LOGIN_TIMEOUT_MS = 600000
+
+const PROVIDER_NAMES: Record<KiroSocialProvider, string> = { Google: 'Google', Github: 'GitHub' }
+
+function htmlResponse(html: string, status = 200): Response {
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+export class DesktopAuthMethod {
+  constructor(
+    private config: KiroConfig,
+    private repository: AccountRepository,
+    private accountManager: AccountManager
+  ) {}
+
+  async authorize(inputs?: Record<string, string>): Promise<AuthOuathResult> {
+    const provider: KiroSocialProvider =
+      inputs?.provider?.trim().toLowerCase() === 'github' ? 'Github' : 'Google'
+    const providerName = PROVIDER_NAMES[provider]
+
+    let resolveCode!: (code: string) => void
+    let rejectCode!: (error: Error) => void
+    const code = new Promise<string>((resolve, reject) => {
+      resolveCode = resolve
+      rejectCode = reject
+    })
+    code.catch(() => {})
+
+    let state = ''
+    const server = serveOnFreePort(this.config, (req) => {
+      const url = new URL(req.url)
+      if (url.pathname !== CALLBACK_PATH) return new Response('Not found', { status: 404 })
+      if (url.searchParams.get('state') !== state) {
+        return htmlResponse(getErrorHtml('Login state mismatch. Please restart the login.'), 400)
+      }
+      const error = url.searchParams.get('error')
+      if (error) {
+        const message = `${providerName} login was rejected: ${url.searchParams.get('error_description') || error}`
+        rejectCode(new Error(message))
+        return htmlResponse(getErrorHtml(message), 400)
+      }
+      const authCode = url.searchParams.get('code')
+      if (!authCode) return htmlResponse(getErrorHtml('Missing authorization code.'), 400)
+      resolveCode(authCode)
+      return htmlResponse(getSuccessHtml(`Kiro (${providerName})`))
+    })
+
+    const timer = setTimeout(() => {
+      rejectCode(new Error('Timed out waiting for the browser login to complete'))
+      server.stop()
+    }, LOGIN_TIMEOUT_MS)
+
+    const auth = authorizeKiroDesktop(
+      provider,
+      `http://localhost:${server.port}${CALLBACK_PATH}`,
+      this.config.default_region
+    )
+    state = auth.state
+    logger.log('Desktop authorize: listening for callback', { provider, port: server.port })
+
+    openBrowser(auth.url)
+
+    return {
+      url: auth.url,
+      instructions: `Sign in with ${providerName} in the browser window. This page will finish automatically.`,
+      method: 'auto',
+      callback: async (): Promise<{ type: 'success'; key: string }> => {
+        try {
+          const token = await exchangeKiroDesktopCode(auth, await code)
+          const region = extractRegionFromArn(token.profileArn) || token.region
+          const usage = await fetchUsageLimits({
+            refresh: '',
+            access: token.accessToken,
+            expires: token.expiresAt,
+            authMethod: 'desktop',
+            region,
+            profileArn: token.profileArn
+          })
+          if (!usage.email) throw new Error('Kiro did not return an email address for this account')
+
+          const id = createDeterministicAccountId(
+            usage.email,
+            'desktop',
+            undefined,
+            token.profileArn
+          )
+          const acc: ManagedAccount = {
+            id,
+            email: usage.email,
+            authMethod: 'desktop',
+            region,
+            profileArn: token.profileArn,
+            refreshToken: token.refreshToken,
+            accessToken: token.accessToken,
+            expiresAt: token.expiresAt,
+            rateLimitResetTime: 0,
+            isHealthy: true,
+            failCount: 0,
+            usedCount: usage.usedCount,
+            limitCount: usage.limitCount,
+            quotaResetAt: usage.nextResetAt
+          }
+
+          await this.repository.save(acc)
+          this.accountManager.addAccount(acc)
+
+          return { type: 'success', key: token.accessToken }
+        } catch (e) {
+          throw this.callbackError(e, providerName)
+        } finally {
+          clearTimeout(timer)
+          server.stop()
+        }
+      }
+    }
+  }
+
+  private callbackError(e: unknown, providerName: string): Error {
+    const err = e instanceof Error ? e : new Error(String(e))
+    logger.error('Desktop auth callback failed', err)
+    return new Error(
+      `Kiro ${providerName} login failed: ${err.message}. Check ~/.config/opencode/kiro-logs/plugin.log for details.`
+    )
+  }
+}
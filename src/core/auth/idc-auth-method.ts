@@ -1,53 +1,17 @@
 import type { AuthOuathResult } from '@opencode-ai/plugin'
-import { exec } from 'node:child_process'
 import { extractRegionFromArn, normalizeRegion } from '../../constants.js'
 import type { AccountRepository } from '../../infrastructure/database/account-repository.js'
+import type { KiroIDCTokenResult } from '../../kiro/oauth-idc.js'
 import { authorizeKiroIDC, pollKiroIDCToken } from '../../kiro/oauth-idc.js'
 import { createDeterministicAccountId } from '../../plugin/accounts.js'
 import * as logger from '../../plugin/logger.js'
 import { readActiveProfileArnFromKiroCli } from '../../plugin/sync/kiro-cli-profile.js'
 import type { KiroRegion, ManagedAccount } from '../../plugin/types.js'
 import { fetchUsageLimits } from '../../plugin/usage.js'
-
-const openBrowser = (url: string) => {
-  const escapedUrl = url.replace(/"/g, '\\"')
-  const platform = process.platform
-  const cmd =
-    platform === 'win32'
-      ? `cmd /c start "" "${escapedUrl}"`
-      : platform === 'darwin'
-        ? `open "${escapedUrl}"`
-        : `xdg-open "${escapedUrl}"`
-  exec(cmd, (error) => {
-    if (error) logger.warn(`Browser error: ${error.message}`)
-  })
-}
-
-function normalizeStartUrl(raw: string | undefined): string | undefined {
-  if (!raw) return undefined
-  const trimmed = raw.trim()
-  if (!trimmed) return undefined
-
-  const url = new URL(trimmed)
-  url.hash = ''
-  url.search = ''
-
-  // Normalize common portal URL shapes to end in `/start` (AWS Builder ID and IAM Identity Center)
-  if (url.pathname.endsWith('/start/')) url.pathname = url.pathname.replace(/\/start\/$/, '/start')
-  if (!url.pathname.endsWith('/start')) url.pathname = url.pathname.replace(/\/+$/, '') + '/start'
-
-  return url.toString()
-}
-
-function buildDeviceUrl(startUrl: string, userCode: string): string {
-  const url = new URL(startUrl)
-  url.search = ''
-  // Prefer `/start/` (with trailing slash) to match AWS portal URLs like `/start/#/device?...`.
-  if (url.pathname.endsWith('/start')) url.pathname = `${url.pathname}/`
-  url.pathname = url.pathname.replace(/\/start\/?$/, '/start/')
-  url.hash = `#/device?user_code=${encodeURIComponent(userCode)}`
-  return url.toString()
-}
+import { openBrowser } from './browser.js'
+import type { IdcLoginResult } from './idc-auth-server.js'
+import { IdcAuthServer } from './idc-auth-server.js'
+import { buildDeviceUrl, normalizeStartUrl } from './start-url.js'
 
 export class IdcAuthMethod {
   constructor(
@@ -57,12 +21,10 @@ export class IdcAuthMethod {
   ) {}
 
   async authorize(inputs?: Record<string, string>): Promise<AuthOuathResult> {
-    const configuredServiceRegion: KiroRegion = this.config.default_region
     const invokedWithoutPrompts = !inputs || Object.keys(inputs).length === 0
 
     const startUrl = normalizeStartUrl(inputs?.start_url || this.config.idc_start_url) || undefined
     const oidcRegion: KiroRegion = normalizeRegion(inputs?.idc_region || this.config.idc_region)
-    const configuredProfileArn = this.config.idc_profile_arn
     logger.log('IDC authorize: resolved defaults', {
       hasInputs: !!inputs && Object.keys(inputs).length > 0,
       invokedWithoutPrompts,
@@ -71,6 +33,10 @@ export class IdcAuthMethod {
       startUrl: startUrl ? new URL(startUrl).origin : undefined
     })
 
+    if (this.config.auth_server_enabled) {
+      return this.authorizeInBrowser(startUrl, oidcRegion)
+    }
+
     // Step 1: get device code + verification URL (fast)
     const auth = await authorizeKiroIDC(oidcRegion, startUrl)
 
@@ -88,7 +54,7 @@ export class IdcAuthMethod {
       url: verificationUrl,
       instructions: `Open the verification URL and complete sign-in.\nCode: ${auth.userCode}`,
       method: 'auto',
-      callback: async (): Promise<{ type: 'success'; key: string } | { type: 'failed' }> => {
+      callback: async (): Promise<IdcLoginResult> => {
         try {
           // Step 2: poll until token is issued (standard device-code flow)
           const token = await pollKiroIDCToken(
@@ -99,66 +65,105 @@ export class IdcAuthMethod {
             auth.expiresIn,
             oidcRegion
           )
+          return await this.completeLogin(token, startUrl, oidcRegion)
+        } catch (e: any) {
+          throw this.callbackError(e)
+        }
+      }
+    }
+  }
 
-          const profileArn = configuredProfileArn || readActiveProfileArnFromKiroCli()
-          const serviceRegion = extractRegionFromArn(profileArn) || configuredServiceRegion
-          let usage: any
-          try {
-            usage = await fetchUsageLimits({
-              refresh: '',
-              access: token.accessToken,
-              expires: token.expiresAt,
-              authMethod: 'idc',
-              region: serviceRegion,
-              clientId: token.clientId,
-              clientSecret: token.clientSecret,
-              profileArn
-            })
-          } catch (e) {
-            if (startUrl && !profileArn) {
-              throw new Error(
-                `Missing profile ARN for IAM Identity Center. Set "idc_profile_arn" in ~/.config/opencode/kiro.json, or run "kiro-cli profile" once so it can be auto-detected. Original error: ${
-                  e instanceof Error ? e.message : String(e)
-                }`
-              )
-            }
-            throw e
-          }
-          if (!usage.email) return { type: 'failed' }
-
-          const id = createDeterministicAccountId(usage.email, 'idc', token.clientId, profileArn)
-          const acc: ManagedAccount = {
-            id,
-            email: usage.email,
-            authMethod: 'idc',
-            region: serviceRegion,
-            oidcRegion,
-            clientId: token.clientId,
-            clientSecret: token.clientSecret,
-            profileArn,
-            startUrl: startUrl || undefined,
-            refreshToken: token.refreshToken,
-            accessToken: token.accessToken,
-            expiresAt: token.expiresAt,
-            rateLimitResetTime: 0,
-            isHealthy: true,
-            failCount: 0,
-            usedCount: usage.usedCount,
-            limitCount: usage.limitCount
-          }
-
-          await this.repository.save(acc)
-          this.accountManager?.addAccount?.(acc)
+  private authorizeInBrowser(
+    startUrl: string | undefined,
+    oidcRegion: KiroRegion
+  ): AuthOuathResult {
+    const server = new IdcAuthServer(this.config, {
+      defaultStartUrl: startUrl || '',
+      defaultOidcRegion: oidcRegion,
+      complete: (token, chosenStartUrl, chosenRegion) =>
+        this.completeLogin(token, chosenStartUrl, chosenRegion)
+    })
+    const url = server.start()
+    openBrowser(url)
 
-          return { type: 'success', key: token.accessToken }
+    return {
+      url,
+      instructions: `Open ${url} to choose AWS Builder ID or your IAM Identity Center Start URL and complete sign-in.`,
+      method: 'auto',
+      callback: async (): Promise<IdcLoginResult> => {
+        try {
+          return await server.waitForLogin()
         } catch (e: any) {
-          const err = e instanceof Error ? e : new Error(String(e))
-          logger.error('IDC auth callback failed', err)
-          throw new Error(
-            `IDC authorization failed: ${err.message}. Check ~/.config/opencode/kiro-logs/plugin.log for details. If this is an Identity Center account, ensure you have selected an AWS Q Developer/CodeWhisperer profile (try: kiro-cli profile).`
-          )
+          throw this.callbackError(e)
         }
       }
     }
   }
+
+  private async completeLogin(
+    token: KiroIDCTokenResult,
+    startUrl: string | undefined,
+    oidcRegion: KiroRegion
+  ): Promise<IdcLoginResult> {
+    const profileArn = this.config.idc_profile_arn || readActiveProfileArnFromKiroCli()
+    const serviceRegion: KiroRegion = extractRegionFromArn(profileArn) || this.config.default_region
+    let usage: any
+    try {
+      usage = await fetchUsageLimits({
+        refresh: '',
+        access: token.accessToken,
+        expires: token.expiresAt,
+        authMethod: 'idc',
+        region: serviceRegion,
+        clientId: token.clientId,
+        clientSecret: token.clientSecret,
+        profileArn
+      })
+    } catch (e) {
+      if (startUrl && !profileArn) {
+        throw new Error(
+          `Missing profile ARN for IAM Identity Center. Set "idc_profile_arn" in ~/.config/opencode/kiro.json, or run "kiro-cli profile" once so it can be auto-detected. Original error: ${
+            e instanceof Error ? e.message : String(e)
+          }`
+        )
+      }
+      throw e
+    }
+    if (!usage.email) return { type: 'failed' }
+
+    const id = createDeterministicAccountId(usage.email, 'idc', token.clientId, profileArn)
+    const acc: ManagedAccount = {
+      id,
+      email: usage.email,
+      authMethod: 'idc',
+      region: serviceRegion,
+      oidcRegion,
+      clientId: token.clientId,
+      clientSecret: token.clientSecret,
+      profileArn,
+      startUrl: startUrl || undefined,
+      refreshToken: token.refreshToken,
+      accessToken: token.accessToken,
+      expiresAt: token.expiresAt,
+      rateLimitResetTime: 0,
+      isHealthy: true,
+      failCount: 0,
+      usedCount: usage.usedCount,
+      limitCount: usage.limitCount,
+      quotaResetAt: usage.nextResetAt
+    }
+
+    await this.repository.save(acc)
+    this.accountManager?.addAccount?.(acc)
+
+    return { type: 'success', key: token.accessToken }
+  }
+
+  private callbackError(e: unknown): Error {
+    const err = e instanceof Error ? e : new Error(String(e))
+    logger.error('IDC auth callback failed', err)
+    return new Error(
+      `IDC authorization failed: ${err.message}. Check ~/.config/opencode/kiro-logs/plugin.log for details. If this is an Identity Center account, ensure you have selected an AWS Q Developer/CodeWhisperer profile (try: kiro-cli profile).`
+    )
+  }
 }
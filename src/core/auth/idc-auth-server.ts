@@ -0,0 +1,172 @@
+import { isValidRegion } from '../../constants.js'
+import type { KiroIDCTokenResult } from '../../kiro/oauth-idc.js'
+import { authorizeKiroIDC, pollKiroIDCToken } from '../../kiro/oauth-idc.js'
+import {
+  getErrorHtml,
+  getIDCAuthHtml,
+  getStartUrlInputHtml,
+  getSuccessHtml
+} from '../../plugin/auth-page.js'
+import * as logger from '../../plugin/logger.js'
+import type { KiroRegion } from '../../plugin/types.js'
+import { serveOnFreePort } from './local-server.js'
+import { buildDeviceUrl, normalizeStartUrl } from './start-url.js'
+
+export type IdcLoginResult = { type: 'success'; key: string } | { type: 'failed' }
+
+interface IdcAuthServerConfig {
+  auth_server_port_start: number
+  auth_server_port_range: number
+}
+
+interface IdcAuthServerOptions {
+  defaultStartUrl: string
+  defaultOidcRegion: KiroRegion
+  complete: (
+    token: KiroIDCTokenResult,
+    startUrl: string | undefined,
+    oidcRegion: KiroRegion
+  ) => Promise<IdcLoginResult>
+}
+
+type LoginStatus = 'idle' | 'pending' | 'success' | 'failed' | 'timeout'
+
+const LOGIN_TIMEOUT_MS = 900000
+const STOP_DELAY_MS = 5000
+
+function htmlResponse(html: string, status = 200): Response {
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+}
+
+export class IdcAuthServer {
+  private server?: ReturnType<typeof serveOnFreePort>
+  private origin = ''
+  private timer?: ReturnType<typeof setTimeout>
+  private status: LoginStatus = 'idle'
+  private message?: string
+  private settle!: { resolve: (r: IdcLoginResult) => void; reject: (e: Error) => void }
+  private result: Promise<IdcLoginResult>
+
+  constructor(
+    private config: IdcAuthServerConfig,
+    private options: IdcAuthServerOptions
+  ) {
+    this.result = new Promise((resolve, reject) => (this.settle = { resolve, reject }))
+    this.result.catch(() => {})
+  }
+
+  start(): string {
+    this.server = serveOnFreePort(this.config, (req) => this.route(req))
+    this.timer = setTimeout(() => {
+      this.finish('timeout', 'Timed out waiting for the browser login to complete')
+      this.stop()
+    }, LOGIN_TIMEOUT_MS)
+    this.origin = `http://localhost:${this.server.port}`
+    const url = `${this.origin}/`
+    logger.log('IDC auth server listening', { url })
+    return url
+  }
+
+  async waitForLogin(): Promise<IdcLoginResult> {
+    try {
+      return await this.result
+    } finally {
+      setTimeout(() => this.stop(), STOP_DELAY_MS)
+    }
+  }
+
+  stop(): void {
+    clearTimeout(this.timer)
+    this.server?.stop()
+    this.server = undefined
+  }
+
+  private async route(req: Request): Promise<Response> {
+    const url = new URL(req.url)
+    switch (`${req.method} ${url.pathname}`) {
+      case 'GET /':
+        return htmlResponse(
+          getStartUrlInputHtml(
+            this.options.defaultStartUrl,
+            '/start',
+            this.options.defaultOidcRegion
+          )
+        )
+      case 'POST /start':
+        return this.begin(req)
+      case 'GET /auth':
+        return htmlResponse(
+          getIDCAuthHtml(
+            url.searchParams.get('url') || '',
+            url.searchParams.get('code') || '',
+            '/status'
+          )
+        )
+      case 'GET /status':
+        return Response.json({ status: this.status, message: this.message })
+      case 'GET /success':
+        return htmlResponse(getSuccessHtml())
+      case 'GET /error':
+        return htmlResponse(
+          getErrorHtml(url.searchParams.get('message') || 'Authentication failed')
+        )
+      default:
+        return new Response('Not found', { status: 404 })
+    }
+  }
+
+  private async begin(req: Request): Promise<Response> {
+    if (req.headers.get('origin') !== this.origin) {
+      logger.warn('IDC auth server: rejected cross-origin start request', {
+        origin: req.headers.get('origin')
+      })
+      return Response.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    if (this.status !== 'idle') {
+      return Response.json({ error: 'A login is already in progress' })
+    }
+    let startUrl: string | undefined
+    try {
+      const body: { startUrl?: string; region?: string } = await req.json().catch(() => ({}))
+      const oidcRegion = body.region?.trim() || this.options.defaultOidcRegion
+      if (!isValidRegion(oidcRegion)) {
+        return Response.json({ error: `Unsupported region: ${oidcRegion}` })
+      }
+      startUrl = normalizeStartUrl(body.startUrl)
+      const auth = await authorizeKiroIDC(oidcRegion, startUrl)
+      this.status = 'pending'
+      this.message = undefined
+      pollKiroIDCToken(
+        auth.clientId,
+        auth.clientSecret,
+        auth.deviceCode,
+        auth.interval,
+        auth.expiresIn,
+        oidcRegion
+      )
+        .then((token) => this.options.complete(token, startUrl, oidcRegion))
+        .then((result) => {
+          if (result.type === 'success') this.finish('success', undefined, result)
+          else this.finish('failed', 'Could not determine the account email', result)
+        })
+        .catch((e) => this.finish('failed', e instanceof Error ? e.message : String(e)))
+      return Response.json({
+        userCode: auth.userCode,
+        verificationUriComplete: startUrl
+          ? buildDeviceUrl(startUrl, auth.userCode)
+          : auth.verificationUriComplete || auth.verificationUrl
+      })
+    } catch (e) {
+      logger.error('IDC auth server: authorization failed', e)
+      return Response.json({ error: e instanceof Error ? e.message : String(e) })
+    }
+  }
+
+  private finish(status: LoginStatus, message?: string, result?: IdcLoginResult): void {
+    if (this.status !== 'idle' && this.status !== 'pending') return
+    this.status = status
+    this.message = message
+    if (result) this.settle.resolve(result)
+    else this.settle.reject(new Error(message))
+  }
+}
@@ -0,0 +1,22 @@
+import * as logger from '../../plugin/logger.js'
+
+interface LocalServerConfig {
+  auth_server_port_start: number
+  auth_server_port_range: number
+}
+
+export function serveOnFreePort(
+  config: LocalServerConfig,
+  fetch: (req: Request) => Response | Promise<Response>
+) {
+  const start = config.auth_server_port_start
+  const range = config.auth_server_port_range
+  for (let port = start; port < start + range; port++) {
+    try {
+      return Bun.serve({ hostname: 'localhost', port, fetch })
+    } catch (e) {
+      logger.debug(`Auth server: port ${port} unavailable`, e)
+    }
+  }
+  throw new Error(`No free port for the local auth server in ${start}-${start + range - 1}`)
+}
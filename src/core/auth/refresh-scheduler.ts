@@ -0,0 +1,111 @@
+import type { AccountRepository } from '../../infrastructure/database/account-repository'
+import { accessTokenExpired } from '../../kiro/auth'
+import type { AccountManager } from '../../plugin/accounts'
+import { isPermanentError, isPermanentRefreshError } from '../../plugin/health'
+import * as logger from '../../plugin/logger'
+import { refreshAccountToken } from '../../plugin/token'
+import type { ManagedAccount } from '../../plugin/types'
+
+interface RefreshSchedulerConfig {
+  token_expiry_buffer_ms: number
+  background_refresh_enabled: boolean
+}
+
+const TICK_INTERVAL_MS = 30000
+const REFRESH_LEAD_MS = 600000
+const REFRESH_JITTER_MS = 300000
+const BASE_BACKOFF_MS = 30000
+const MAX_BACKOFF_MS = 900000
+
+export class RefreshScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running = false
+  private dueTimes = new Map<string, { expiresAt: number; dueAt: number }>()
+  private failures = new Map<string, { attempts: number; retryAt: number }>()
+
+  constructor(
+    private config: RefreshSchedulerConfig,
+    private accountManager: AccountManager,
+    private repository: AccountRepository
+  ) {}
+
+  start(): void {
+    if (!this.config.background_refresh_enabled || this.timer) return
+    this.timer = setInterval(() => this.tick().catch(() => {}), TICK_INTERVAL_MS)
+    this.timer.unref?.()
+    this.tick().catch(() => {})
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) return
+    this.running = true
+    try {
+      const now = Date.now()
+      for (const account of this.accountManager.getAccounts()) {
+        if (account.disabled || isPermanentError(account.unhealthyReason)) continue
+        if (now < this.dueAt(account)) continue
+        if (now < (this.failures.get(account.id)?.retryAt || 0)) continue
+        await this.refreshAccount(account)
+      }
+    } finally {
+      this.running = false
+    }
+  }
+
+  private dueAt(account: ManagedAccount): number {
+    const cached = this.dueTimes.get(account.id)
+    if (cached && cached.expiresAt === account.expiresAt) return cached.dueAt
+    const dueAt =
+      account.expiresAt -
+      this.config.token_expiry_buffer_ms -
+      REFRESH_LEAD_MS -
+      Math.floor(Math.random() * REFRESH_JITTER_MS)
+    this.dueTimes.set(account.id, { expiresAt: account.expiresAt, dueAt })
+    return dueAt
+  }
+
+  private async refreshAccount(account: ManagedAccount): Promise<void> {
+    const refreshBefore = Date.now() + this.config.token_expiry_buffer_ms + REFRESH_LEAD_MS
+    try {
+      const newAuth = await refreshAccountToken(account, refreshBefore, false)
+      if (!newAuth) return
+      const refreshed = newAuth.access !== account.accessToken
+      this.accountManager.updateFromAuth(account, newAuth)
+      await this.repository.batchSave(this.accountManager.getAccounts())
+      this.failures.delete(account.id)
+      if (refreshed) logger.log('Refreshed access token in background', { email: account.email })
+    } catch (e) {
+      await this.handleFailure(account, e)
+    }
+  }
+
+  private async handleFailure(account: ManagedAccount, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error)
+    if (isPermanentRefreshError(error)) {
+      logger.warn('Background token refresh rejected', { email: account.email, error: message })
+      this.accountManager.markUnhealthy(account, `${message} (${error.code})`)
+      await this.repository.batchSave(this.accountManager.getAccounts())
+      this.failures.delete(account.id)
+      return
+    }
+
+    const attempts = (this.failures.get(account.id)?.attempts || 0) + 1
+    const retryAt = Date.now() + Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS)
+    this.failures.set(account.id, { attempts, retryAt })
+    logger.warn('Background token refresh failed', {
+      email: account.email,
+      attempts,
+      retryAt: new Date(retryAt).toISOString(),
+      error: message
+    })
+    const auth = this.accountManager.toAuthDetails(account)
+    if (accessTokenExpired(auth, this.config.token_expiry_buffer_ms)) {
+      this.accountManager.suspendUntil(account, `Token refresh failed: ${message}`, retryAt)
+    }
+  }
+}
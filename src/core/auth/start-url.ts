@@ -0,0 +1,25 @@
+export function normalizeStartUrl(raw: string | undefined): string | undefined {
+  if (!raw) return undefined
+  const trimmed = raw.trim()
+  if (!trimmed) return undefined
+
+  const url = new URL(trimmed)
+  url.hash = ''
+  url.search = ''
+
+  // Normalize common portal URL shapes to end in `/start` (AWS Builder ID and IAM Identity Center)
+  if (url.pathname.endsWith('/start/')) url.pathname = url.pathname.replace(/\/start\/$/, '/start')
+  if (!url.pathname.endsWith('/start')) url.pathname = url.pathname.replace(/\/+$/, '') + '/start'
+
+  return url.toString()
+}
+
+export function buildDeviceUrl(startUrl: string, userCode: string): string {
+  const url = new URL(startUrl)
+  url.search = ''
+  // Prefer `/start/` (with trailing slash) to match AWS portal URLs like `/start/#/device?...`.
+  if (url.pathname.endsWith('/start')) url.pathname = `${url.pathname}/`
+  url.pathname = url.pathname.replace(/\/start\/?$/, '/start/')
+  url.hash = `#/device?user_code=${encodeURIComponent(userCode)}`
+  return url.toString()
+}
@@ -1,16 +1,16 @@
 import type { AccountRepository } from '../../infrastructure/database/account-repository'
 import { accessTokenExpired } from '../../kiro/auth'
 import type { AccountManager } from '../../plugin/accounts'
-import { KiroTokenRefreshError } from '../../plugin/errors'
-import { refreshAccessToken } from '../../plugin/token'
-import type { KiroAuthDetails, ManagedAccount } from '../../plugin/types'
+import { isPermanentRefreshError } from '../../plugin/health'
+import { refreshAccountToken } from '../../plugin/token'
+import type { AccountSelectionStrategy, KiroAuthDetails, ManagedAccount } from '../../plugin/types'
 
 type ToastFunction = (message: string, variant: 'info' | 'warning' | 'success' | 'error') => void
 
 interface TokenRefresherConfig {
   token_expiry_buffer_ms: number
   auto_sync_kiro_cli: boolean
-  account_selection_strategy: 'sticky' | 'round-robin' | 'lowest-usage'
+  account_selection_strategy: AccountSelectionStrategy
 }
 
 export class TokenRefresher {
@@ -31,8 +31,11 @@ export class TokenRefresher {
     }
 
     try {
-      const newAuth = await refreshAccessToken(auth)
-      this.accountManager.updateFromAuth(account, newAuth)
+      const newAuth = await refreshAccountToken(
+        account,
+        Date.now() + this.config.token_expiry_buffer_ms
+      )
+      if (newAuth) this.accountManager.updateFromAuth(account, newAuth)
       await this.repository.batchSave(this.accountManager.getAccounts())
       return { account, shouldContinue: false }
     } catch (e: any) {
@@ -64,14 +67,7 @@ export class TokenRefresher {
       return { account: stillAcc, shouldContinue: true }
     }
 
-    if (
-      error instanceof KiroTokenRefreshError &&
-      (error.code === 'ExpiredTokenException' ||
-        error.code === 'InvalidTokenException' ||
-        error.code === 'HTTP_401' ||
-        error.code === 'HTTP_403' ||
-        error.message.includes('Invalid refresh token provided'))
-    ) {
+    if (isPermanentRefreshError(error)) {
       this.accountManager.markUnhealthy(account, error.message)
       await this.repository.batchSave(this.accountManager.getAccounts())
       return { account, shouldContinue: true }
@@ -1,9 +1,13 @@
 export * from './account/account-selector.js'
+export * from './account/concurrency-limiter.js'
 export * from './account/usage-tracker.js'
 export * from './auth/auth-handler.js'
 export * from './auth/idc-auth-method.js'
+export * from './auth/refresh-scheduler.js'
 export * from './auth/token-refresher.js'
+export * from './model/model-discovery.js'
 export * from './request/error-handler.js'
 export * from './request/request-handler.js'
 export * from './request/response-handler.js'
 export * from './request/retry-strategy.js'
+export * from './session/session-tracker.js'
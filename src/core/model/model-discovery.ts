@@ -0,0 +1,95 @@
+import * as logger from '../../plugin/logger'
+import { fetchAvailableModels } from '../../plugin/model-discovery'
+import { getModelInfo, isKnownModel, registerDiscoveredModels } from '../../plugin/models'
+import { kiroDb } from '../../plugin/storage/sqlite'
+import type { DiscoveredModel, KiroAuthDetails, ManagedAccount } from '../../plugin/types'
+
+const EMPTY_RESULT_TTL_MS = 300000
+
+type ToastFunction = (message: string, variant: 'info' | 'warning' | 'success' | 'error') => void
+
+interface ModelDiscoveryConfig {
+  model_discovery_enabled: boolean
+  model_discovery_ttl_ms: number
+}
+
+export class ModelDiscovery {
+  private inFlight = new Map<string, Promise<DiscoveredModel[]>>()
+  private reported = new Set<string>()
+  private retryAfter = new Map<string, number>()
+
+  constructor(private config: ModelDiscoveryConfig) {}
+
+  loadCached(): void {
+    if (!this.config.model_discovery_enabled) return
+    try {
+      registerDiscoveredModels(kiroDb.getAvailableModels().map((r) => r.model))
+    } catch (e) {
+      logger.warn('Failed to load cached model list', e)
+    }
+  }
+
+  async ensureModel(
+    model: string,
+    account: ManagedAccount,
+    auth: KiroAuthDetails,
+    showToast: ToastFunction
+  ): Promise<void> {
+    if (!this.config.model_discovery_enabled) return
+    const available = await this.getAvailableModels(account, auth)
+    if (!isKnownModel(model) || available.length === 0) return
+
+    const { kiroModelId } = getModelInfo(model)
+    const scope = this.scopeFor(account)
+    const key = `${scope}:${kiroModelId}`
+    if (available.some((m) => m.modelId === kiroModelId) || this.reported.has(key)) return
+
+    this.reported.add(key)
+    const ids = available.map((m) => m.modelId).join(', ')
+    logger.warn('Model not listed for account', { model, kiroModelId, account: account.email, ids })
+    showToast(`${model} is not listed as available for ${account.email}`, 'warning')
+  }
+
+  async getAvailableModels(
+    account: ManagedAccount,
+    auth: KiroAuthDetails
+  ): Promise<DiscoveredModel[]> {
+    const scope = this.scopeFor(account)
+    const cached = kiroDb.getAvailableModels(scope)
+    const fetchedAt = cached[0]?.fetchedAt || 0
+    if (cached.length > 0 && Date.now() - fetchedAt < this.config.model_discovery_ttl_ms) {
+      return cached.map((r) => r.model)
+    }
+    if ((this.retryAfter.get(scope) || 0) > Date.now()) return cached.map((r) => r.model)
+
+    let pending = this.inFlight.get(scope)
+    if (!pending) {
+      pending = this.refresh(scope, auth).finally(() => this.inFlight.delete(scope))
+      this.inFlight.set(scope, pending)
+    }
+
+    try {
+      return await pending
+    } catch (e) {
+      this.retryAfter.set(scope, Date.now() + EMPTY_RESULT_TTL_MS)
+      logger.warn('Model discovery failed', { account: account.email, error: String(e) })
+      return cached.map((r) => r.model)
+    }
+  }
+
+  private async refresh(scope: string, auth: KiroAuthDetails): Promise<DiscoveredModel[]> {
+    const models = await fetchAvailableModels(auth)
+    if (models.length === 0) {
+      this.retryAfter.set(scope, Date.now() + EMPTY_RESULT_TTL_MS)
+      return models
+    }
+    this.retryAfter.delete(scope)
+    await kiroDb.replaceAvailableModels(scope, models, Date.now())
+    registerDiscoveredModels(models)
+    return models
+  }
+
+  private scopeFor(account: ManagedAccount): string {
+    return account.profileArn || `account:${account.id}`
+  }
+}
@@ -1,5 +1,6 @@
 import type { AccountRepository } from '../../infrastructure/database/account-repository'
 import type { AccountManager } from '../../plugin/accounts'
+import { KiroValidationError } from '../../plugin/errors'
 import type { ManagedAccount } from '../../plugin/types'
 
 type ToastFunction = (message: string, variant: 'info' | 'warning' | 'success' | 'error') => void
@@ -7,8 +8,20 @@ type ToastFunction = (message: string, variant: 'info' | 'warning' | 'success' |
 interface RequestContext {
   reductionFactor: number
   retry: number
+  requestTokens?: number
+  contextWindow?: number
 }
 
+type BadRequest =
+  | { kind: 'context'; message: string; actualTokens?: number; maxTokens?: number }
+  | { kind: 'validation'; message: string; field?: string }
+
+const MIN_REDUCTION_FACTOR = 0.25
+const MAX_REDUCTION_STEP = 0.8
+const REDUCTION_SAFETY_MARGIN = 0.9
+const CONTEXT_LENGTH_PATTERN =
+  /CONTENT_LENGTH_EXCEEDS_THRESHOLD|too long|context (length|window)|exceeds? (the )?(maximum|max|limit|threshold)|too many tokens/i
+
 interface ErrorHandlerConfig {
   rate_limit_max_retries: number
   rate_limit_retry_delay_ms: number
@@ -28,8 +41,18 @@ export class ErrorHandler {
     context: RequestContext,
     showToast: ToastFunction
   ): Promise<{ shouldRetry: boolean; newContext?: RequestContext; switchAccount?: boolean }> {
-    if (response.status === 400 && context.reductionFactor > 0.4) {
-      const newFactor = context.reductionFactor - 0.2
+    if (response.status === 400) {
+      const badRequest = parseBadRequest(await response.text().catch(() => ''))
+      if (badRequest.kind === 'validation') {
+        throw new KiroValidationError(badRequest.message, badRequest.field)
+      }
+      const newFactor = this.reduceContext(context, badRequest)
+      if (newFactor === null) {
+        throw new KiroValidationError(
+          `${badRequest.message} (request still too long after reducing history to ${Math.round(context.reductionFactor * 100)}%)`,
+          'messages'
+        )
+      }
       showToast(`Context too long. Retrying with ${Math.round(newFactor * 100)}%...`, 'warning')
       return {
         shouldRetry: true,
@@ -141,6 +164,21 @@ export class ErrorHandler {
     return { shouldRetry: false }
   }
 
+  private reduceContext(
+    context: RequestContext,
+    badRequest: Extract<BadRequest, { kind: 'context' }>
+  ): number | null {
+    if (context.reductionFactor <= MIN_REDUCTION_FACTOR) return null
+    let ratio = MAX_REDUCTION_STEP
+    if (badRequest.actualTokens && badRequest.maxTokens) {
+      ratio = badRequest.maxTokens / badRequest.actualTokens
+    } else if (context.requestTokens && context.contextWindow) {
+      ratio = context.contextWindow / context.requestTokens
+    }
+    const step = Math.min(MAX_REDUCTION_STEP, ratio * REDUCTION_SAFETY_MARGIN)
+    return Math.max(MIN_REDUCTION_FACTOR, context.reductionFactor * step)
+  }
+
   private isNetworkError(e: any): boolean {
     return (
       e instanceof Error && /econnreset|etimedout|enotfound|network|fetch failed/i.test(e.message)
@@ -151,3 +189,26 @@ export class ErrorHandler {
     return new Promise((r) => setTimeout(r, ms))
   }
 }
+
+function parseBadRequest(body: string): BadRequest {
+  let data: any = {}
+  try {
+    data = JSON.parse(body)
+  } catch {}
+  const message: string = data.message || data.Message || body || 'Bad Request'
+  const reason: string = data.reason || ''
+
+  if (CONTEXT_LENGTH_PATTERN.test(`${reason} ${message}`)) {
+    const counts = message.match(/(\d[\d,]*)\s*tokens?\s*>\s*(\d[\d,]*)/i)
+    return {
+      kind: 'context',
+      message,
+      actualTokens: counts ? Number(counts[1]!.replace(/,/g, '')) : undefined,
+      maxTokens: counts ? Number(counts[2]!.replace(/,/g, '')) : undefined
+    }
+  }
+
+  const field =
+    data.fieldList?.[0]?.path || message.match(/Value at '([^']+)'/)?.[1] || data.field || undefined
+  return { kind: 'validation', message: reason ? `${message} (${reason})` : message, field }
+}
@@ -3,12 +3,22 @@ import type { AccountManager } from '../../plugin/accounts'
 import type { KiroConfig } from '../../plugin/config'
 import { isPermanentError } from '../../plugin/health'
 import * as logger from '../../plugin/logger'
+import { getModelContextWindow, isThinkingEnabled } from '../../plugin/models'
 import { transformToCodeWhisperer } from '../../plugin/request'
+import { estimateTokens } from '../../plugin/response'
 import { syncFromKiroCli } from '../../plugin/sync/kiro-cli'
-import type { KiroAuthDetails, ManagedAccount, PreparedRequest } from '../../plugin/types'
+import type {
+  KiroAuthDetails,
+  ManagedAccount,
+  PreparedRequest,
+  ResponseFormat
+} from '../../plugin/types'
 import { AccountSelector } from '../account/account-selector'
+import { ConcurrencyLimiter } from '../account/concurrency-limiter'
 import { UsageTracker } from '../account/usage-tracker'
 import { TokenRefresher } from '../auth/token-refresher'
+import { ModelDiscovery } from '../model/model-discovery'
+import { SessionTracker } from '../session/session-tracker'
 import { ErrorHandler } from './error-handler'
 import { ResponseHandler } from './response-handler'
 import { RetryStrategy } from './retry-strategy'
@@ -16,6 +26,7 @@ import { RetryStrategy } from './retry-strategy'
 type ToastFunction = (message: string, variant: 'info' | 'warning' | 'success' | 'error') => void
 
 const KIRO_API_PATTERN = /^(https?:\/\/)?q\.[a-z0-9-]+\.amazonaws\.com/
+const ANTHROPIC_MESSAGES_PATTERN = /\/messages(\?|$)/
 
 export class RequestHandler {
   private accountSelector: AccountSelector
@@ -24,18 +35,31 @@ export class RequestHandler {
   private responseHandler: ResponseHandler
   private usageTracker: UsageTracker
   private retryStrategy: RetryStrategy
+  private modelDiscovery: ModelDiscovery
+  private sessionTracker: SessionTracker
+  private concurrencyLimiter: ConcurrencyLimiter
 
   constructor(
     private accountManager: AccountManager,
     private config: KiroConfig,
     private repository: AccountRepository
   ) {
-    this.accountSelector = new AccountSelector(accountManager, config, syncFromKiroCli, repository)
+    this.concurrencyLimiter = new ConcurrencyLimiter(config)
+    this.accountSelector = new AccountSelector(
+      accountManager,
+      config,
+      syncFromKiroCli,
+      repository,
+      this.concurrencyLimiter
+    )
     this.tokenRefresher = new TokenRefresher(config, accountManager, syncFromKiroCli, repository)
     this.errorHandler = new ErrorHandler(config, accountManager, repository)
     this.responseHandler = new ResponseHandler()
     this.usageTracker = new UsageTracker(config, accountManager, repository)
     this.retryStrategy = new RetryStrategy(config)
+    this.modelDiscovery = new ModelDiscovery(config)
+    this.modelDiscovery.loadCached()
+    this.sessionTracker = new SessionTracker()
   }
 
   async handle(input: any, init: any, showToast: ToastFunction): Promise<Response> {
@@ -55,9 +79,13 @@ export class RequestHandler {
   ): Promise<Response> {
     const body = init?.body ? JSON.parse(init.body) : {}
     const model = this.extractModel(url) || body.model || 'claude-sonnet-4-5'
-    const think = model.endsWith('-thinking') || !!body.providerOptions?.thinkingConfig
-    const budget = body.providerOptions?.thinkingConfig?.thinkingBudget || 20000
+    const format = this.detectResponseFormat(url, init)
+    const thinkRequested =
+      !!body.providerOptions?.thinkingConfig || body.thinking?.type === 'enabled'
+    const budget =
+      body.providerOptions?.thinkingConfig?.thinkingBudget || body.thinking?.budget_tokens || 20000
 
+    const session = this.sessionTracker.begin(init, body)
     let reductionFactor = 1.0
     let retry = 0
     let consecutiveNullAccounts = 0
@@ -73,7 +101,11 @@ export class RequestHandler {
         throw new Error('All accounts are permanently unhealthy (quota exceeded or suspended)')
       }
 
-      let acc = await this.accountSelector.selectHealthyAccount(showToast)
+      let acc = await this.accountSelector.selectHealthyAccount(
+        showToast,
+        session.sessionKey,
+        model
+      )
       if (!acc) {
         consecutiveNullAccounts++
         const backoffDelay = Math.min(1000 * Math.pow(2, consecutiveNullAccounts - 1), 10000)
@@ -82,76 +114,109 @@ export class RequestHandler {
       }
 
       consecutiveNullAccounts = 0
-      const auth = this.accountManager.toAuthDetails(acc)
-
-      const tokenResult = await this.tokenRefresher.refreshIfNeeded(acc, auth, showToast)
-      if (tokenResult.shouldContinue) {
-        acc = tokenResult.account
-        await this.sleep(500)
-        continue
+      const slotAccount = acc
+      let slotHeld = true
+      let handedOff = false
+      const releaseSlot = () => {
+        if (!slotHeld) return
+        slotHeld = false
+        this.concurrencyLimiter.release(slotAccount)
       }
 
-      const prep = this.prepareRequest(url, init?.body, model, auth, think, budget, reductionFactor)
+      try {
+        const auth = this.accountManager.toAuthDetails(acc)
 
-      const apiTimestamp = this.config.enable_log_api_request ? logger.getTimestamp() : null
-      if (apiTimestamp) {
-        this.logRequest(prep, acc, apiTimestamp)
-      }
+        const tokenResult = await this.tokenRefresher.refreshIfNeeded(acc, auth, showToast)
+        if (tokenResult.shouldContinue) {
+          acc = tokenResult.account
+          await this.sleep(500)
+          continue
+        }
 
-      try {
-        const res = await fetch(prep.url, prep.init)
+        await this.modelDiscovery.ensureModel(model, acc, auth, showToast)
+        const think = isThinkingEnabled(model, thinkRequested)
+        const prep = this.prepareRequest(
+          url,
+          init?.body,
+          model,
+          auth,
+          think,
+          budget,
+          reductionFactor,
+          session.conversationId
+        )
 
+        const apiTimestamp = this.config.enable_log_api_request ? logger.getTimestamp() : null
         if (apiTimestamp) {
-          this.logResponse(res, prep, apiTimestamp)
+          this.logRequest(prep, acc, apiTimestamp)
         }
 
-        if (res.ok) {
-          this.handleSuccessfulRequest(acc)
-          this.usageTracker.syncUsage(acc, auth)
-          return await this.responseHandler.handleSuccess(
-            res,
-            model,
-            prep.conversationId,
-            prep.streaming
-          )
-        }
+        try {
+          const res = await fetch(prep.url, prep.init)
 
-        const errorResult = await this.errorHandler.handle(
-          null,
-          res,
-          acc,
-          { reductionFactor, retry },
-          showToast
-        )
+          if (apiTimestamp) {
+            this.logResponse(res, prep, apiTimestamp)
+          }
 
-        if (errorResult.shouldRetry) {
-          if (errorResult.newContext) {
-            reductionFactor = errorResult.newContext.reductionFactor
-            retry = errorResult.newContext.retry
+          if (res.ok) {
+            this.handleSuccessfulRequest(acc)
+            this.usageTracker.syncUsage(acc, auth)
+            const response = await this.responseHandler.handleSuccess(
+              res,
+              model,
+              prep.conversationId,
+              prep.streaming,
+              format,
+              (usage) => this.sessionTracker.recordUsage(session.sessionKey, usage)
+            )
+            handedOff = true
+            return this.releaseWhenDone(response, releaseSlot)
           }
-          if (errorResult.switchAccount) {
+
+          const errorResult = await this.errorHandler.handle(
+            null,
+            res,
+            acc,
+            {
+              reductionFactor,
+              retry,
+              requestTokens: estimateTokens(String(prep.init.body || ''), model),
+              contextWindow: getModelContextWindow(model)
+            },
+            showToast
+          )
+
+          if (errorResult.shouldRetry) {
+            if (errorResult.newContext) {
+              reductionFactor = errorResult.newContext.reductionFactor
+              retry = errorResult.newContext.retry
+            }
+            if (errorResult.switchAccount) {
+              continue
+            }
             continue
           }
-          continue
-        }
 
-        this.logError(prep, res, acc, apiTimestamp)
-        throw new Error(`Kiro Error: ${res.status}`)
-      } catch (e) {
-        const networkResult = await this.errorHandler.handleNetworkError(
-          e,
-          { reductionFactor, retry },
-          showToast
-        )
+          this.logError(prep, res, acc, apiTimestamp)
+          throw new Error(`Kiro Error: ${res.status}`)
+        } catch (e) {
+          const networkResult = await this.errorHandler.handleNetworkError(
+            e,
+            { reductionFactor, retry },
+            showToast
+          )
 
-        if (networkResult.shouldRetry) {
-          if (networkResult.newContext) {
-            retry = networkResult.newContext.retry
+          if (networkResult.shouldRetry) {
+            if (networkResult.newContext) {
+              retry = networkResult.newContext.retry
+            }
+            continue
           }
-          continue
-        }
 
-        throw e
+          throw e
+        }
+      } finally {
+        if (!handedOff) releaseSlot()
       }
     }
   }
@@ -160,6 +225,12 @@ export class RequestHandler {
     return url.match(/models\/([^/:]+)/)?.[1] || null
   }
 
+  private detectResponseFormat(url: string, init: any): ResponseFormat {
+    if (ANTHROPIC_MESSAGES_PATTERN.test(url)) return 'anthropic'
+    const headers = new Headers(init?.headers)
+    return headers.has('anthropic-version') ? 'anthropic' : 'openai'
+  }
+
   private prepareRequest(
     url: string,
     body: any,
@@ -167,19 +238,58 @@ export class RequestHandler {
     auth: KiroAuthDetails,
     think: boolean,
     budget: number,
-    reductionFactor: number
+    reductionFactor: number,
+    conversationId: string
   ): PreparedRequest {
-    return transformToCodeWhisperer(url, body, model, auth, think, budget, reductionFactor)
+    return transformToCodeWhisperer(
+      url,
+      body,
+      model,
+      auth,
+      think,
+      budget,
+      reductionFactor,
+      conversationId
+    )
+  }
+
+  private releaseWhenDone(response: Response, release: () => void): Response {
+    if (!response.body) {
+      release()
+      return response
+    }
+    const reader = response.body.getReader()
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read()
+          if (done) {
+            release()
+            controller.close()
+          } else {
+            controller.enqueue(value)
+          }
+        } catch (e) {
+          release()
+          controller.error(e)
+        }
+      },
+      cancel(reason) {
+        release()
+        return reader.cancel(reason)
+      }
+    })
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    })
   }
 
   private handleSuccessfulRequest(acc: ManagedAccount): void {
     if (acc.failCount && acc.failCount > 0) {
       if (!isPermanentError(acc.unhealthyReason)) {
-        acc.failCount = 0
-        acc.isHealthy = true
-        delete acc.unhealthyReason
-        delete acc.recoveryTime
-        this.repository.save(acc).catch(() => {})
+        this.accountManager.markHealthy(acc)
       }
     }
   }
@@ -260,7 +370,7 @@ export class RequestHandler {
   }
 
   private allAccountsPermanentlyUnhealthy(): boolean {
-    const accounts = this.accountManager.getAccounts()
+    const accounts = this.accountManager.getAccounts().filter((acc) => !acc.disabled)
     if (accounts.length === 0) {
       return false
     }
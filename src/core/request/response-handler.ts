@@ -1,35 +1,65 @@
-import { parseEventStream } from '../../plugin/response'
-import { transformKiroStream } from '../../plugin/streaming/index.js'
+import * as logger from '../../plugin/logger'
+import {
+  collectAnthropicMessage,
+  convertErrorToAnthropic,
+  convertErrorToOpenAI,
+  convertMessageToOpenAI,
+  convertToOpenAI,
+  errorStatusCode,
+  formatAnthropicSSE,
+  isKiroStreamError,
+  transformKiroStream
+} from '../../plugin/streaming/index.js'
+import type { ResponseFormat } from '../../plugin/types'
 
 export class ResponseHandler {
   async handleSuccess(
     response: Response,
     model: string,
     conversationId: string,
-    streaming: boolean
+    streaming: boolean,
+    format: ResponseFormat = 'openai',
+    onUsage?: (usage: any) => void
   ): Promise<Response> {
     if (streaming) {
-      return this.handleStreaming(response, model, conversationId)
+      return this.handleStreaming(response, model, conversationId, format, onUsage)
     }
-    return this.handleNonStreaming(response, model, conversationId)
+    return this.handleNonStreaming(response, model, conversationId, format, onUsage)
   }
 
   private async handleStreaming(
     response: Response,
     model: string,
-    conversationId: string
+    conversationId: string,
+    format: ResponseFormat,
+    onUsage?: (usage: any) => void
   ): Promise<Response> {
     const s = transformKiroStream(response, model, conversationId)
+    const encoder = new TextEncoder()
+    const isAnthropic = format === 'anthropic'
     return new Response(
       new ReadableStream({
         async start(c) {
           try {
             for await (const e of s) {
-              c.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(e)}\n\n`))
+              if (e.type === 'message_delta') onUsage?.(e.usage)
+              const chunk = isAnthropic
+                ? formatAnthropicSSE(e)
+                : `data: ${JSON.stringify(convertToOpenAI(e, conversationId, model))}\n\n`
+              c.enqueue(encoder.encode(chunk))
             }
             c.close()
           } catch (err) {
-            c.error(err)
+            if (!isKiroStreamError(err)) {
+              c.error(err)
+              return
+            }
+            logger.warn('Kiro stream ended with exception', { conversationId, error: err.message })
+            const chunk = isAnthropic
+              ? `event: error\ndata: ${JSON.stringify(convertErrorToAnthropic(err))}\n\n`
+              : `data: ${JSON.stringify(convertErrorToOpenAI(err))}\n\n`
+            c.enqueue(encoder.encode(chunk))
+            c.close()
           }
         }
       }),
@@ -40,42 +70,28 @@ export class ResponseHandler {
   private async handleNonStreaming(
     response: Response,
     model: string,
-    conversationId: string
+    conversationId: string,
+    format: ResponseFormat,
+    onUsage?: (usage: any) => void
   ): Promise<Response> {
-    const text = await response.text()
-    const p = parseEventStream(text)
-    const oai: any = {
-      id: conversationId,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model,
-      choices: [
-        {
-          index: 0,
-          message: { role: 'assistant', content: p.content },
-          finish_reason: p.stopReason === 'tool_use' ? 'tool_calls' : 'stop'
-        }
-      ],
-      usage: {
-        prompt_tokens: p.inputTokens || 0,
-        completion_tokens: p.outputTokens || 0,
-        total_tokens: (p.inputTokens || 0) + (p.outputTokens || 0)
-      }
+    const isAnthropic = format === 'anthropic'
+    try {
+      const message = await collectAnthropicMessage(
+        transformKiroStream(response, model, conversationId)
+      )
+      onUsage?.(message.usage)
+      const body = isAnthropic ? message : convertMessageToOpenAI(message, conversationId, model)
+      return new Response(JSON.stringify(body), {
+        headers: { 'Content-Type': 'application/json' }
+      })
+    } catch (err) {
+      if (!isKiroStreamError(err)) throw err
+      logger.warn('Kiro response contained exception', { conversationId, error: err.message })
+      const body = isAnthropic ? convertErrorToAnthropic(err) : convertErrorToOpenAI(err)
+      return new Response(JSON.stringify(body), {
+        status: errorStatusCode(err),
+        headers: { 'Content-Type': 'application/json' }
+      })
     }
-
-    if (p.toolCalls.length > 0) {
-      oai.choices[0].message.tool_calls = p.toolCalls.map((tc) => ({
-        id: tc.toolUseId,
-        type: 'function',
-        function: {
-          name: tc.name,
-          arguments: typeof tc.input === 'string' ? tc.input : JSON.stringify(tc.input)
-        }
-      }))
-    }
-
-    return new Response(JSON.stringify(oai), {
-      headers: { 'Content-Type': 'application/json' }
-    })
   }
 }
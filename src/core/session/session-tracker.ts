@@ -0,0 +1,85 @@
+import * as logger from '../../plugin/logger'
+import { conversationIdFor, hashMessages, resolveSessionKey } from '../../plugin/session'
+import { kiroDb } from '../../plugin/storage/sqlite'
+
+const SESSION_TTL_MS = 7 * 86400000
+const PRUNE_INTERVAL_MS = 3600000
+
+export interface SessionContext {
+  sessionKey?: string
+  conversationId: string
+}
+
+export class SessionTracker {
+  private lastPrunedAt = 0
+
+  begin(init: any, body: any): SessionContext {
+    const sessionKey = resolveSessionKey(new Headers(init?.headers), body)
+    if (!sessionKey) return { conversationId: crypto.randomUUID() }
+    const messages: any[] = Array.isArray(body?.messages) ? body.messages : []
+    const now = Date.now()
+    this.prune(now)
+
+    let existing = null
+    try {
+      existing = kiroDb.getSession(sessionKey)
+    } catch (e) {
+      logger.warn('Failed to read session record', e)
+    }
+
+    let generation = existing?.generation ?? 0
+    if (existing && !this.continues(existing.messageCount, existing.historyHash, messages)) {
+      generation++
+      logger.log('Session history diverged, starting new conversation', {
+        sessionKey,
+        generation
+      })
+    }
+
+    const conversationId = conversationIdFor(sessionKey, generation)
+    try {
+      kiroDb.upsertSession({
+        sessionKey,
+        conversationId,
+        generation,
+        messageCount: messages.length,
+        historyHash: hashMessages(messages),
+        requestCount: 1,
+        inputTokens: 0,
+        outputTokens: 0,
+        createdAt: existing?.createdAt ?? now,
+        lastUsedAt: now
+      })
+    } catch (e) {
+      logger.warn('Failed to save session record', e)
+    }
+
+    return { sessionKey, conversationId }
+  }
+
+  recordUsage(sessionKey: string | undefined, usage: any): void {
+    if (!sessionKey) return
+    try {
+      kiroDb.addSessionUsage(sessionKey, usage?.input_tokens || 0, usage?.output_tokens || 0)
+    } catch (e) {
+      logger.warn('Failed to record session usage', e)
+    }
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return
+    this.lastPrunedAt = now
+    try {
+      kiroDb.pruneSessions(now - SESSION_TTL_MS)
+    } catch (e) {
+      logger.warn('Failed to prune session records', e)
+    }
+  }
+
+  private continues(messageCount: number, historyHash: string, messages: any[]): boolean {
+    return (
+      messages.length >= messageCount &&
+      hashMessages(messages.slice(0, messageCount)) === historyHash
+    )
+  }
+}
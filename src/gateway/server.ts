@@ -0,0 +1,139 @@
+import { timingSafeEqual } from 'node:crypto'
+import { KIRO_CONSTANTS } from '../constants.js'
+import { AuthHandler } from '../core/auth/auth-handler.js'
+import { RefreshScheduler } from '../core/auth/refresh-scheduler.js'
+import { RequestHandler } from '../core/request/request-handler.js'
+import { AccountCache } from '../infrastructure/database/account-cache.js'
+import { AccountRepository } from '../infrastructure/database/account-repository.js'
+import { AccountManager } from '../plugin/accounts.js'
+import type { KiroConfig } from '../plugin/config/index.js'
+import * as logger from '../plugin/logger.js'
+import { getAllModels } from '../plugin/models.js'
+import {
+  convertErrorToAnthropic,
+  convertErrorToOpenAI,
+  errorStatusCode,
+  isKiroStreamError
+} from '../plugin/streaming/index.js'
+
+type ToastFunction = (message: string, variant: 'info' | 'warning' | 'success' | 'error') => void
+
+const ROUTES = new Set(['/v1/chat/completions', '/v1/messages'])
+
+export interface GatewayServer {
+  url: string
+  stop(): void
+}
+
+export async function startGateway(config: KiroConfig): Promise<GatewayServer> {
+  if (!config.gateway_api_key && !isLoopback(config.gateway_host)) {
+    throw new Error(
+      `Refusing to serve on ${config.gateway_host} without an API key; set gateway_api_key or pass --api-key`
+    )
+  }
+  const cache = new AccountCache(60000)
+  const repository = new AccountRepository(cache)
+  const authHandler = new AuthHandler(config, repository)
+  const accountManager = await AccountManager.loadFromDisk(
+    config.account_selection_strategy,
+    config.session_affinity_ttl_ms
+  )
+  authHandler.setAccountManager(accountManager)
+  await authHandler.initialize()
+
+  const requestHandler = new RequestHandler(accountManager, config, repository)
+  const refreshScheduler = new RefreshScheduler(config, accountManager, repository)
+  refreshScheduler.start()
+  const baseURL = KIRO_CONSTANTS.BASE_URL.replace('/generateAssistantResponse', '').replace(
+    '{{region}}',
+    config.default_region || 'us-east-1'
+  )
+
+  const showToast: ToastFunction = (message, variant) => {
+    logger.log(`Gateway ${variant}: ${message}`)
+    console.error(`[kiro-gateway] ${variant}: ${message}`)
+  }
+
+  const server = Bun.serve({
+    hostname: config.gateway_host,
+    port: config.gateway_port,
+    idleTimeout: 0,
+    async fetch(req) {
+      const path = new URL(req.url).pathname
+      const isAnthropic = path === '/v1/messages'
+
+      if (!isAuthorized(req, config.gateway_api_key)) {
+        return errorResponse(401, 'Invalid or missing API key', isAnthropic)
+      }
+
+      if (req.method === 'GET' && path === '/v1/models') {
+        return Response.json({
+          object: 'list',
+          data: Object.keys(getAllModels()).map((id) => ({
+            id,
+            object: 'model',
+            created: 0,
+            owned_by: 'kiro'
+          }))
+        })
+      }
+
+      if (req.method !== 'POST' || !ROUTES.has(path)) {
+        return errorResponse(404, `Unknown route: ${req.method} ${path}`, isAnthropic)
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      const anthropicVersion = req.headers.get('anthropic-version')
+      if (anthropicVersion) headers['anthropic-version'] = anthropicVersion
+
+      try {
+        return await requestHandler.handle(
+          `${baseURL}${path}`,
+          { method: 'POST', headers, body: await req.text() },
+          showToast
+        )
+      } catch (e) {
+        logger.error('Gateway request failed', e)
+        if (!isKiroStreamError(e)) {
+          return errorResponse(502, e instanceof Error ? e.message : String(e), isAnthropic)
+        }
+        const body = isAnthropic ? convertErrorToAnthropic(e) : convertErrorToOpenAI(e)
+        return Response.json(body, { status: errorStatusCode(e) })
+      }
+    }
+  })
+
+  const url = `http://${server.hostname}:${server.port}`
+  logger.log('Gateway listening', { url, auth: !!config.gateway_api_key })
+  return {
+    url,
+    stop: () => {
+      refreshScheduler.stop()
+      server.stop()
+    }
+  }
+}
+
+function isLoopback(host: string): boolean {
+  const h = host.toLowerCase().replace(/^\[|\]$/g, '')
+  return h === 'localhost' || h === '::1' || /^127(\.\d{1,3}){3}$/.test(h)
+}
+
+function isAuthorized(req: Request, apiKey: string | undefined): boolean {
+  if (!apiKey) return true
+  const auth = req.headers.get('authorization') || ''
+  const provided = auth.startsWith('Bearer ') ? auth.slice(7) : req.headers.get('x-api-key') || ''
+  const a = Buffer.from(provided)
+  const b = Buffer.from(apiKey)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function errorResponse(status: number, message: string, anthropic: boolean): Response {
+  const body = anthropic
+    ? {
+        type: 'error',
+        error: { type: status === 401 ? 'authentication_error' : 'api_error', message }
+      }
+    : { error: { message, type: status === 401 ? 'invalid_api_key' : 'api_error' } }
+  return Response.json(body, { status })
+}
@@ -1,4 +1,5 @@
-import { kiroDb } from '../../plugin/storage/sqlite.js'
+import { kiroDb, parseModelList } from '../../plugin/storage/sqlite.js'
+import type { UsageBreakdown } from '../../plugin/types.js'
 import { AccountCache } from './account-cache.js'
 
 export class AccountRepository {
@@ -32,6 +33,13 @@ export class AccountRepository {
       lastUsed: r.last_used,
       usedCount: r.used_count,
       limitCount: r.limit_count,
+      quotaResetAt: r.quota_reset_at || undefined,
+      label: r.label || undefined,
+      priority: r.priority || 0,
+      allowedModels: parseModelList(r.allowed_models),
+      deniedModels: parseModelList(r.denied_models),
+      disabled: r.disabled === 1,
+      preferred: r.preferred === 1,
       lastSync: r.last_sync
     }))
 
@@ -69,6 +77,10 @@ export class AccountRepository {
     this.cache.invalidateAll()
   }
 
+  async saveUsageBreakdown(accountId: string, breakdown: UsageBreakdown[]): Promise<void> {
+    await kiroDb.replaceUsageBreakdown(accountId, breakdown)
+  }
+
   invalidateCache(): void {
     this.cache.invalidateAll()
   }
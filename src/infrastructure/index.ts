@@ -1,7 +1,9 @@
 export * from './database/account-cache.js'
 export * from './database/account-repository.js'
+export * from './transformers/event-stream-decoder.js'
 export * from './transformers/event-stream-parser.js'
 export * from './transformers/history-builder.js'
 export * from './transformers/message-transformer.js'
 export * from './transformers/tool-call-parser.js'
+export * from './transformers/tool-result-compactor.js'
 export * from './transformers/tool-transformer.js'
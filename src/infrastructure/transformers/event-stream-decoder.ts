@@ -0,0 +1,153 @@
+export type EventStreamHeaderValue = string | number | boolean | Uint8Array
+
+export interface EventStreamMessage {
+  headers: Record<string, EventStreamHeaderValue>
+  payload: Uint8Array
+}
+
+const PRELUDE_LENGTH = 12
+const CHECKSUM_LENGTH = 4
+const MIN_MESSAGE_LENGTH = PRELUDE_LENGTH + CHECKSUM_LENGTH
+const MAX_MESSAGE_LENGTH = 16 * 1024 * 1024
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let c = i
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[i] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0xffffffff
+  for (let i = start; i < end; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]!) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+export class EventStreamDecoder {
+  private buffer: Uint8Array = new Uint8Array(0)
+
+  push(chunk: Uint8Array): EventStreamMessage[] {
+    this.buffer = concat(this.buffer, chunk)
+    const messages: EventStreamMessage[] = []
+
+    while (this.buffer.length >= PRELUDE_LENGTH) {
+      const view = new DataView(this.buffer.buffer, this.buffer.byteOffset, this.buffer.length)
+      const totalLength = view.getUint32(0)
+      if (totalLength < MIN_MESSAGE_LENGTH || totalLength > MAX_MESSAGE_LENGTH) {
+        throw new Error(`Invalid event stream message length: ${totalLength}`)
+      }
+      if (this.buffer.length < totalLength) break
+
+      messages.push(decodeMessage(this.buffer.subarray(0, totalLength)))
+      this.buffer = this.buffer.slice(totalLength)
+    }
+
+    return messages
+  }
+
+  get pendingBytes(): number {
+    return this.buffer.length
+  }
+}
+
+function decodeMessage(message: Uint8Array): EventStreamMessage {
+  const view = new DataView(message.buffer, message.byteOffset, message.length)
+  const totalLength = view.getUint32(0)
+  const headersLength = view.getUint32(4)
+  const preludeCrc = view.getUint32(8)
+
+  if (crc32(message, 0, 8) !== preludeCrc) {
+    throw new Error('Event stream prelude checksum mismatch')
+  }
+  const messageCrc = view.getUint32(totalLength - CHECKSUM_LENGTH)
+  if (crc32(message, 0, totalLength - CHECKSUM_LENGTH) !== messageCrc) {
+    throw new Error('Event stream message checksum mismatch')
+  }
+
+  const headersEnd = PRELUDE_LENGTH + headersLength
+  if (headersEnd > totalLength - CHECKSUM_LENGTH) {
+    throw new Error(`Invalid event stream headers length: ${headersLength}`)
+  }
+
+  return {
+    headers: decodeHeaders(message.subarray(PRELUDE_LENGTH, headersEnd)),
+    payload: message.subarray(headersEnd, totalLength - CHECKSUM_LENGTH)
+  }
+}
+
+function decodeHeaders(bytes: Uint8Array): Record<string, EventStreamHeaderValue> {
+  const headers: Record<string, EventStreamHeaderValue> = {}
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length)
+  const text = new TextDecoder()
+  let pos = 0
+
+  while (pos < bytes.length) {
+    const nameLength = view.getUint8(pos)
+    pos += 1
+    const name = text.decode(bytes.subarray(pos, pos + nameLength))
+    pos += nameLength
+    const type = view.getUint8(pos)
+    pos += 1
+
+    switch (type) {
+      case 0:
+        headers[name] = true
+        break
+      case 1:
+        headers[name] = false
+        break
+      case 2:
+        headers[name] = view.getInt8(pos)
+        pos += 1
+        break
+      case 3:
+        headers[name] = view.getInt16(pos)
+        pos += 2
+        break
+      case 4:
+        headers[name] = view.getInt32(pos)
+        pos += 4
+        break
+      case 5:
+      case 8:
+        headers[name] = Number(view.getBigInt64(pos))
+        pos += 8
+        break
+      case 6: {
+        const length = view.getUint16(pos)
+        pos += 2
+        headers[name] = bytes.slice(pos, pos + length)
+        pos += length
+        break
+      }
+      case 7: {
+        const length = view.getUint16(pos)
+        pos += 2
+        headers[name] = text.decode(bytes.subarray(pos, pos + length))
+        pos += length
+        break
+      }
+      case 9:
+        headers[name] = bytes.slice(pos, pos + 16)
+        pos += 16
+        break
+      default:
+        throw new Error(`Unknown event stream header type ${type} for ${name}`)
+    }
+  }
+
+  return headers
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b
+  const out = new Uint8Array(a.length + b.length)
+  out.set(a, 0)
+  out.set(b, a.length)
+  return out
+}
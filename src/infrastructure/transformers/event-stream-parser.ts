@@ -1,121 +1,102 @@
-interface ParsedEvent {
-  type: string
-  data: any
-}
-
-export function parseAwsEventStreamBuffer(buffer: string): ParsedEvent[] {
-  const events: ParsedEvent[] = []
-  let remaining = buffer
-  let searchStart = 0
+import type { KiroStreamEvent } from '../../plugin/types'
+import { EventStreamDecoder, type EventStreamMessage } from './event-stream-decoder.js'
 
-  while (true) {
-    const contentStart = remaining.indexOf('{"content":', searchStart)
-    const nameStart = remaining.indexOf('{"name":', searchStart)
-    const followupStart = remaining.indexOf('{"followupPrompt":', searchStart)
-    const inputStart = remaining.indexOf('{"input":', searchStart)
-    const stopStart = remaining.indexOf('{"stop":', searchStart)
-    const contextUsageStart = remaining.indexOf('{"contextUsagePercentage":', searchStart)
+export class KiroEventStreamParser {
+  private decoder = new EventStreamDecoder()
 
-    const candidates = [
-      contentStart,
-      nameStart,
-      followupStart,
-      inputStart,
-      stopStart,
-      contextUsageStart
-    ].filter((pos) => pos >= 0)
-    if (candidates.length === 0) break
-
-    const jsonStart = Math.min(...candidates)
-    if (jsonStart < 0) break
+  push(chunk: Uint8Array): KiroStreamEvent[] {
+    return toKiroEvents(this.decoder.push(chunk))
+  }
 
-    let braceCount = 0
-    let jsonEnd = -1
-    let inString = false
-    let escapeNext = false
+  finish(): void {
+    if (this.decoder.pendingBytes > 0) {
+      throw new Error(`Truncated event stream: ${this.decoder.pendingBytes} trailing bytes`)
+    }
+  }
+}
 
-    for (let i = jsonStart; i < remaining.length; i++) {
-      const char = remaining[i]
+function toKiroEvents(messages: EventStreamMessage[]): KiroStreamEvent[] {
+  const events: KiroStreamEvent[] = []
+  for (const message of messages) {
+    const event = toKiroEvent(message)
+    if (event) events.push(event)
+  }
+  return events
+}
 
-      if (escapeNext) {
-        escapeNext = false
-        continue
-      }
+function toKiroEvent(message: EventStreamMessage): KiroStreamEvent | null {
+  const messageType = message.headers[':message-type']
+  const payload = parseEventLine(new TextDecoder().decode(message.payload)) || {}
+
+  if (messageType === 'exception' || messageType === 'error') {
+    const exceptionType = message.headers[':exception-type'] || message.headers[':error-code']
+    return {
+      type: 'exception',
+      exceptionType: typeof exceptionType === 'string' ? exceptionType : 'UnknownException',
+      message:
+        payload.message ||
+        payload.Message ||
+        (typeof message.headers[':error-message'] === 'string'
+          ? (message.headers[':error-message'] as string)
+          : 'Unknown stream error')
+    }
+  }
 
-      if (char === '\\') {
-        escapeNext = true
-        continue
+  switch (message.headers[':event-type']) {
+    case 'assistantResponseEvent':
+      if (typeof payload.content !== 'string' || payload.followupPrompt) return null
+      return { type: 'assistantResponse', content: payload.content }
+    case 'toolUseEvent':
+      // Follow-up frames may carry only input or stop; they belong to the current tool call.
+      if (!(payload.toolUseId && payload.name) && payload.input === undefined && !payload.stop) {
+        return null
       }
-
-      if (char === '"') {
-        inString = !inString
-        continue
+      return {
+        type: 'toolUse',
+        toolUseId: payload.toolUseId || undefined,
+        name: payload.name || undefined,
+        input:
+          typeof payload.input === 'string'
+            ? payload.input
+            : payload.input
+              ? JSON.stringify(payload.input)
+              : '',
+        stop: !!payload.stop
       }
-
-      if (!inString) {
-        if (char === '{') {
-          braceCount++
-        } else if (char === '}') {
-          braceCount--
-          if (braceCount === 0) {
-            jsonEnd = i
-            break
-          }
+    case 'contextUsageEvent':
+      if (typeof payload.contextUsagePercentage !== 'number') return null
+      return { type: 'contextUsage', contextUsagePercentage: payload.contextUsagePercentage }
+    case 'meteringEvent':
+      return (
+        toUsageEvent(payload) || {
+          type: 'metering',
+          unit: payload.unit,
+          usage: Number(payload.usage) || 0
         }
-      }
-    }
-
-    if (jsonEnd < 0) {
-      break
-    }
-
-    const jsonStr = remaining.substring(jsonStart, jsonEnd + 1)
-    const parsed = parseEventLine(jsonStr)
-
-    if (parsed) {
-      if (parsed.content !== undefined && !parsed.followupPrompt) {
-        events.push({ type: 'content', data: parsed.content })
-      } else if (parsed.name && parsed.toolUseId) {
-        events.push({
-          type: 'toolUse',
-          data: {
-            name: parsed.name,
-            toolUseId: parsed.toolUseId,
-            input: parsed.input || '',
-            stop: parsed.stop || false
-          }
-        })
-      } else if (parsed.input !== undefined && !parsed.name) {
-        events.push({
-          type: 'toolUseInput',
-          data: {
-            input: parsed.input
-          }
-        })
-      } else if (parsed.stop !== undefined && parsed.contextUsagePercentage === undefined) {
-        events.push({
-          type: 'toolUseStop',
-          data: {
-            stop: parsed.stop
-          }
-        })
-      } else if (parsed.contextUsagePercentage !== undefined) {
-        events.push({
-          type: 'contextUsage',
-          data: {
-            contextUsagePercentage: parsed.contextUsagePercentage
-          }
-        })
-      }
-    }
+      )
+    case 'metadataEvent':
+    case 'usageEvent':
+      return toUsageEvent(payload)
+    default:
+      return null
+  }
+}
 
-    searchStart = jsonEnd + 1
-    if (searchStart >= remaining.length) {
-      break
-    }
+function toUsageEvent(payload: any): KiroStreamEvent | null {
+  const usage = payload.tokenUsage || (typeof payload.usage === 'object' ? payload.usage : payload)
+  if (!usage || typeof usage !== 'object') return null
+  const event: KiroStreamEvent = {
+    type: 'usage',
+    inputTokens: firstNumber(usage.uncachedInputTokens, usage.inputTokens),
+    outputTokens: firstNumber(usage.outputTokens),
+    cacheReadInputTokens: firstNumber(usage.cacheReadInputTokens),
+    cacheWriteInputTokens: firstNumber(usage.cacheWriteInputTokens)
   }
+  return event.inputTokens === undefined && event.outputTokens === undefined ? null : event
+}
 
-  return events
+function firstNumber(...values: unknown[]): number | undefined {
+  return values.find((v): v is number => typeof v === 'number' && Number.isFinite(v))
 }
 
 export function parseEventLine(line: string): any | null {
@@ -4,19 +4,36 @@ import {
   extractAllImages,
   extractTextFromParts
 } from '../../plugin/image-handler.js'
+import { estimateTokens } from '../../plugin/response.js'
 import type { CodeWhispererMessage } from '../../plugin/types'
-import { getContentText, sanitizeHistory, truncate } from './message-transformer.js'
+import { findOriginalToolCall, getContentText, sanitizeHistory } from './message-transformer.js'
+import {
+  compactToolResult,
+  historyToolResultLimit,
+  toToolResultSource
+} from './tool-result-compactor.js'
 import { deduplicateToolResults } from './tool-transformer.js'
 
+const DEFAULT_KEEP_RECENT_TURNS = 4
+const MESSAGE_OVERHEAD_TOKENS = 4
+const IMAGE_TOKEN_ESTIMATE = 1600
+const SUMMARY_PAIR_TOKENS = 40
+
 export function buildHistory(
   msgs: any[],
   resolved: string,
   toolResultLimit: number
 ): CodeWhispererMessage[] {
   let history: CodeWhispererMessage[] = []
+  let toolTurnsRemaining = msgs.slice(0, -1).filter(hasToolResults).length
+  const compact = (text: string, toolUseId: string, limit: number) =>
+    compactToolResult(text, limit, toToolResultSource(findOriginalToolCall(msgs, toolUseId)))
   for (let i = 0; i < msgs.length - 1; i++) {
     const m = msgs[i]
     if (!m) continue
+    const limit = hasToolResults(m)
+      ? historyToolResultLimit(toolResultLimit, toolTurnsRemaining--)
+      : toolResultLimit
     if (m.role === 'user') {
       const uim: any = { content: '', modelId: resolved, origin: KIRO_CONSTANTS.ORIGIN_AI_EDITOR }
       const trs: any[] = []
@@ -27,7 +44,7 @@ export function buildHistory(
         for (const p of m.content) {
           if (p.type === 'tool_result') {
             trs.push({
-              content: [{ text: truncate(getContentText(p.content || p), toolResultLimit) }],
+              content: [{ text: compact(getContentText(p.content || p), p.tool_use_id, limit) }],
               status: 'success',
               toolUseId: p.tool_use_id
             })
@@ -52,13 +69,13 @@ export function buildHistory(
       if (m.tool_results) {
         for (const tr of m.tool_results)
           trs.push({
-            content: [{ text: truncate(getContentText(tr), toolResultLimit) }],
+            content: [{ text: compact(getContentText(tr), tr.tool_call_id, limit) }],
             status: 'success',
             toolUseId: tr.tool_call_id
           })
       } else {
         trs.push({
-          content: [{ text: truncate(getContentText(m), toolResultLimit) }],
+          content: [{ text: compact(getContentText(m), m.tool_call_id, limit) }],
           status: 'success',
           toolUseId: m.tool_call_id
         })
@@ -114,6 +131,13 @@ export function buildHistory(
   return history
 }
 
+function hasToolResults(m: any): boolean {
+  return (
+    m?.role === 'tool' ||
+    (Array.isArray(m?.content) && m.content.some((p: any) => p.type === 'tool_result'))
+  )
+}
+
 export function injectSystemPrompt(
   history: CodeWhispererMessage[],
   system: string | undefined,
@@ -136,23 +160,82 @@ export function injectSystemPrompt(
   return history
 }
 
+export interface HistoryBudget {
+  maxTokens: number
+  model?: string
+  keepRecentTurns?: number
+}
+
+export function estimateMessageTokens(m: CodeWhispererMessage, model?: string): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS
+  const u = m.userInputMessage
+  if (u) {
+    tokens += estimateTokens(u.content || '', model)
+    for (const tr of u.userInputMessageContext?.toolResults || []) {
+      for (const c of tr.content) tokens += estimateTokens(c.text || '', model)
+    }
+    tokens += (u.images?.length || 0) * IMAGE_TOKEN_ESTIMATE
+  }
+  const a = m.assistantResponseMessage
+  if (a) {
+    tokens += estimateTokens(a.content || '', model)
+    for (const tu of a.toolUses || []) {
+      tokens += estimateTokens(`${tu.name}${JSON.stringify(tu.input ?? {})}`, model)
+    }
+  }
+  return tokens
+}
+
 export function truncateHistory(
   history: CodeWhispererMessage[],
-  historyLimit: number
+  budget: HistoryBudget
 ): CodeWhispererMessage[] {
-  let sanitized = sanitizeHistory(history)
-  let historySize = JSON.stringify(sanitized).length
-  while (historySize > historyLimit && sanitized.length > 2) {
-    sanitized.shift()
-    while (sanitized.length > 0) {
-      const first = sanitized[0]
-      if (first && first.userInputMessage) break
-      sanitized.shift()
-    }
-    sanitized = sanitizeHistory(sanitized)
-    historySize = JSON.stringify(sanitized).length
+  const sanitized = sanitizeHistory(history)
+  const tokens = sanitized.map((m) => estimateMessageTokens(m, budget.model))
+  const total = tokens.reduce((a, b) => a + b, 0)
+  if (total <= budget.maxTokens) return sanitized
+
+  const start = sanitized.findIndex((m, i) => i > 0 && !!m.assistantResponseMessage)
+  if (start === -1) return sanitized
+
+  const keepRecent = (budget.keepRecentTurns ?? DEFAULT_KEEP_RECENT_TURNS) * 2
+  const tailStart = Math.max(start + 1, sanitized.length - keepRecent)
+  const end =
+    findDropEnd(sanitized, tokens, start, tailStart, total - budget.maxTokens) ??
+    findDropEnd(sanitized, tokens, start, sanitized.length, total - budget.maxTokens)
+  if (end === undefined) return sanitized
+
+  const dropped = sanitized.slice(start, end + 1)
+  const toolNames = extractToolNamesFromHistory(dropped)
+  const first = sanitized[0]!.userInputMessage!
+  const note = `[${dropped.length} earlier messages omitted to fit the context window${
+    toolNames.size ? `; tools used: ${[...toolNames].join(', ')}` : ''
+  }]`
+  return [
+    ...sanitized.slice(0, start),
+    { assistantResponseMessage: { content: note } },
+    { userInputMessage: { content: 'Continue', modelId: first.modelId, origin: first.origin } },
+    ...sanitized.slice(end + 1)
+  ]
+}
+
+function findDropEnd(
+  history: CodeWhispererMessage[],
+  tokens: number[],
+  start: number,
+  limit: number,
+  excess: number
+): number | undefined {
+  let removed = 0
+  let lastValid: number | undefined
+  for (let i = start; i < limit; i++) {
+    removed += tokens[i]!
+    const next = history[i + 1]
+    if (!history[i]!.userInputMessage || (next && !next.assistantResponseMessage)) continue
+    lastValid = i
+    if (removed - SUMMARY_PAIR_TOKENS >= excess) return i
   }
-  return sanitized
+  return limit === history.length ? lastValid : undefined
 }
 
 export function historyHasToolCalling(history: CodeWhispererMessage[]): boolean {
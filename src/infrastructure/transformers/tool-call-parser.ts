@@ -1,58 +1,43 @@
 import type { ToolCall } from '../../plugin/types'
 
-export function parseBracketToolCalls(text: string): ToolCall[] {
-  const toolCalls: ToolCall[] = []
-  const pattern = /\[Called\s+(\w+)\s+with\s+args:\s*(\{[^}]*(?:\{[^}]*\}[^}]*)*\})\]/gs
-
-  let match: RegExpExecArray | null
-  while ((match = pattern.exec(text)) !== null) {
-    const funcName = match[1]
-    const argsStr = match[2]
-
-    if (!funcName || !argsStr) continue
-
-    try {
-      const args = JSON.parse(argsStr)
-      toolCalls.push({
-        toolUseId: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        name: funcName,
-        input: args
-      })
-    } catch (e) {
-      continue
+const BRACKET_HEADER = /^\[Called\s+(\w+)\s+with\s+args:\s*\{/
+const PARTIAL_BRACKET_HEADER =
+  /^\[(C(a(l(l(e(d(\s+(\w+(\s+(w(i(t(h(\s+(a(r(g(s(:\s*)?)?)?)?)?)?)?)?)?)?)?)?)?)?)?)?)?)?)?$/
+
+export type BracketMatch = { length: number; toolCall: ToolCall } | 'incomplete' | null
+
+export function matchBracketToolCall(text: string): BracketMatch {
+  const header = BRACKET_HEADER.exec(text)
+  if (!header) return PARTIAL_BRACKET_HEADER.test(text) ? 'incomplete' : null
+
+  let depth = 0
+  let inString = false
+  for (let i = header[0].length - 1; i < text.length; i++) {
+    const ch = text[i]
+    if (inString) {
+      if (ch === '\\') i++
+      else if (ch === '"') inString = false
+    } else if (ch === '"') {
+      inString = true
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}' && --depth === 0) {
+      if (i + 1 >= text.length) return 'incomplete'
+      if (text[i + 1] !== ']') return null
+      try {
+        const input = JSON.parse(text.slice(header[0].length - 1, i + 1))
+        return {
+          length: i + 2,
+          toolCall: {
+            toolUseId: `tool_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name: header[1]!,
+            input
+          }
+        }
+      } catch {
+        return null
+      }
     }
   }
-
-  return toolCalls
-}
-
-export function deduplicateToolCalls(toolCalls: ToolCall[]): ToolCall[] {
-  const seen = new Set<string>()
-  const unique: ToolCall[] = []
-
-  for (const tc of toolCalls) {
-    if (!seen.has(tc.toolUseId)) {
-      seen.add(tc.toolUseId)
-      unique.push(tc)
-    }
-  }
-
-  return unique
-}
-
-export function cleanToolCallsFromText(text: string, toolCalls: ToolCall[]): string {
-  let cleaned = text
-
-  for (const tc of toolCalls) {
-    const funcName = tc.name
-    const escapedName = funcName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-    const pattern = new RegExp(
-      `\\[Called\\s+${escapedName}\\s+with\\s+args:\\s*\\{[^}]*(?:\\{[^}]*\\}[^}]*)*\\}\\]`,
-      'gs'
-    )
-    cleaned = cleaned.replace(pattern, '')
-  }
-
-  cleaned = cleaned.replace(/\s+/g, ' ').trim()
-  return cleaned
+  return 'incomplete'
 }
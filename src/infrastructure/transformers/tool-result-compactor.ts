@@ -0,0 +1,235 @@
+export interface ToolResultSource {
+  name?: string
+  input?: Record<string, unknown>
+}
+
+interface WindowOptions {
+  kind: string
+  before: number
+  after: number
+}
+
+const HEAD_LINES = 20
+const TAIL_LINES = 20
+const ELISION_MARKER_CHARS = 64
+const MIN_HISTORY_TOOL_RESULT_CHARS = 4000
+const JSON_STRING_PREVIEW = 200
+const JSON_ARRAY_PREVIEW = 3
+const JSON_MAX_DEPTH = 4
+const SEARCH_INPUT_KEYS = ['pattern', 'query', 'search', 'regex', 'grep', 'symbol', 'text']
+const FAILURE_PATTERN =
+  /(\bFAIL(ED|URE)?\b|✗|✕|\bfailed\b|AssertionError|\bError:|Traceback|panicked|\bexpected\b.*\breceived\b)/
+const TEST_RUNNER_PATTERN = /\b(tests?|specs?|suites?|assertions?)\b/i
+const NUMBERED_LINE_PATTERN = /^\s*\d+[|:\t→]/
+
+export function historyToolResultLimit(toolResultLimit: number, age: number): number {
+  return Math.max(MIN_HISTORY_TOOL_RESULT_CHARS, Math.floor(toolResultLimit / Math.max(1, age)))
+}
+
+export function toToolResultSource(call: any): ToolResultSource {
+  if (!call) return {}
+  let input = call.input
+  if (!input && typeof call.function?.arguments === 'string') {
+    try {
+      input = JSON.parse(call.function.arguments)
+    } catch {
+      input = undefined
+    }
+  }
+  return { name: call.name || call.function?.name, input }
+}
+
+export function compactToolResult(
+  text: string,
+  limit: number,
+  source: ToolResultSource = {}
+): string {
+  if (text.length <= limit) return text
+
+  const json = tryParseJson(text)
+  if (json !== undefined) return compactJson(json, text, limit, source)
+
+  const lines = text.split('\n')
+  const failures = findLines(lines, (l) => FAILURE_PATTERN.test(l))
+  if (failures.length > 0 && lines.some((l) => TEST_RUNNER_PATTERN.test(l))) {
+    return compactLines(lines, failures, limit, source, {
+      kind: 'test output',
+      before: 3,
+      after: 12
+    })
+  }
+
+  if (isNumberedFile(lines)) {
+    const terms = searchTerms(source)
+    const matches = terms.length
+      ? findLines(lines, (l) => terms.some((t) => t.test(l)))
+      : ([] as number[])
+    return compactLines(lines, matches, limit, source, {
+      kind: 'file content',
+      before: 5,
+      after: 5
+    })
+  }
+
+  return compactLines(lines, [], limit, source, { kind: 'output', before: 0, after: 0 })
+}
+
+function compactLines(
+  lines: string[],
+  anchors: number[],
+  limit: number,
+  source: ToolResultSource,
+  options: WindowOptions
+): string {
+  const totalChars = lines.reduce((n, l) => n + l.length + 1, 0)
+  const footer = `[${options.kind} compacted from ${lines.length} lines (${totalChars} chars) to fit the context window. ${refetchHint(source, options.kind)}]`
+  const budget = limit - footer.length - ELISION_MARKER_CHARS
+  if (budget <= 0) return footer
+
+  const keep = new Array<boolean>(lines.length).fill(false)
+  let used = 0
+  const tryKeep = (start: number, end: number) => {
+    let cost = ELISION_MARKER_CHARS
+    for (let i = start; i <= end; i++) if (!keep[i]) cost += lines[i]!.length + 1
+    if (used + cost > budget) return
+    for (let i = start; i <= end; i++) keep[i] = true
+    used += cost
+  }
+
+  tryKeep(0, Math.min(HEAD_LINES, lines.length) - 1)
+  tryKeep(Math.max(0, lines.length - TAIL_LINES), lines.length - 1)
+  for (const a of anchors) {
+    tryKeep(Math.max(0, a - options.before), Math.min(lines.length - 1, a + options.after))
+  }
+  if (used === 0) return middleOut(lines.join('\n'), limit, footer)
+
+  const headBudget = used + (budget - used) / 2
+  for (let i = 0; i < lines.length && used + lines[i]!.length < headBudget; i++) {
+    if (!keep[i]) used += lines[i]!.length + 1
+    keep[i] = true
+  }
+  for (let i = lines.length - 1; i >= 0 && used + lines[i]!.length < budget; i--) {
+    if (!keep[i]) used += lines[i]!.length + 1
+    keep[i] = true
+  }
+
+  const parts: string[] = []
+  let elidedFrom = -1
+  for (let i = 0; i <= lines.length; i++) {
+    if (i < lines.length && !keep[i]) {
+      if (elidedFrom === -1) elidedFrom = i
+      continue
+    }
+    if (elidedFrom !== -1) {
+      parts.push(elisionMarker(lines, elidedFrom, i - 1))
+      elidedFrom = -1
+    }
+    if (i < lines.length) parts.push(lines[i]!)
+  }
+  parts.push(footer)
+  return parts.join('\n')
+}
+
+function compactJson(
+  value: unknown,
+  text: string,
+  limit: number,
+  source: ToolResultSource
+): string {
+  const footer = `[JSON compacted from ${text.length} chars to fit the context window: long strings, large arrays and deep objects are summarized. ${refetchHint(source, 'JSON')}]`
+  const summary = JSON.stringify(summarizeJson(value, 0), null, 2)
+  if (summary.length + footer.length < limit) return `${summary}\n${footer}`
+
+  const keys =
+    value && typeof value === 'object'
+      ? Object.keys(value as object).map((k) => `${k}: ${describeJson((value as any)[k])}`)
+      : [describeJson(value)]
+  return middleOut(`Top-level structure:\n${keys.join('\n')}`, limit, footer)
+}
+
+function summarizeJson(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > JSON_STRING_PREVIEW
+      ? `${value.slice(0, JSON_STRING_PREVIEW)}… (+${value.length - JSON_STRING_PREVIEW} chars)`
+      : value
+  }
+  if (!value || typeof value !== 'object') return value
+  if (depth >= JSON_MAX_DEPTH) return describeJson(value)
+  if (Array.isArray(value)) {
+    const items = value.slice(0, JSON_ARRAY_PREVIEW).map((v) => summarizeJson(v, depth + 1))
+    if (value.length > JSON_ARRAY_PREVIEW) {
+      items.push(`… ${value.length - JSON_ARRAY_PREVIEW} more items`)
+    }
+    return items
+  }
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, summarizeJson(v, depth + 1)]))
+}
+
+function describeJson(value: unknown): string {
+  if (Array.isArray(value)) return `array(${value.length})`
+  if (value && typeof value === 'object') return `object(${Object.keys(value).length} keys)`
+  if (typeof value === 'string') return `string(${value.length})`
+  return String(value)
+}
+
+function middleOut(text: string, limit: number, footer: string): string {
+  const budget = Math.max(0, limit - footer.length - 100)
+  if (text.length <= budget) return `${text}\n${footer}`
+  const half = Math.floor(budget / 2)
+  const elided = text.length - half * 2
+  return `${text.slice(0, half)}\n... [${elided} chars elided] ...\n${text.slice(text.length - half)}\n${footer}`
+}
+
+function elisionMarker(lines: string[], start: number, end: number): string {
+  const chars = lines.slice(start, end + 1).reduce((n, l) => n + l.length + 1, 0)
+  return `... [lines ${start + 1}-${end + 1} elided (${chars} chars)] ...`
+}
+
+function refetchHint(source: ToolResultSource, kind: string): string {
+  const tool = source.name ? `\`${source.name}\`` : 'the tool'
+  if (kind === 'file content') {
+    return `Re-run ${tool} with an offset/limit covering the elided line numbers to read them.`
+  }
+  if (kind === 'test output') {
+    return `Re-run ${tool} scoped to the failing tests to see their full output.`
+  }
+  return `Re-run ${tool} with a narrower query or filter to retrieve the elided content.`
+}
+
+function findLines(lines: string[], predicate: (line: string) => boolean): number[] {
+  const found: number[] = []
+  lines.forEach((l, i) => {
+    if (predicate(l)) found.push(i)
+  })
+  return found
+}
+
+function isNumberedFile(lines: string[]): boolean {
+  const sample = lines.filter((l) => l.trim()).slice(0, 50)
+  if (sample.length < 5) return false
+  return sample.filter((l) => NUMBERED_LINE_PATTERN.test(l)).length / sample.length >= 0.6
+}
+
+function searchTerms(source: ToolResultSource): RegExp[] {
+  const terms: RegExp[] = []
+  for (const key of SEARCH_INPUT_KEYS) {
+    const value = source.input?.[key]
+    if (typeof value !== 'string' || value.length < 2 || value.length > 200) continue
+    try {
+      terms.push(new RegExp(value, 'i'))
+    } catch {
+      terms.push(new RegExp(value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'))
+    }
+  }
+  return terms
+}
+
+function tryParseJson(text: string): unknown {
+  const trimmed = text.trim()
+  if (!/^[[{]/.test(trimmed)) return undefined
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,100 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { KIRO_AUTH_SERVICE, KIRO_CONSTANTS, buildUrl, normalizeRegion } from '../constants'
+import type { KiroRegion } from '../plugin/types'
+
+export type KiroSocialProvider = 'Google' | 'Github'
+
+export interface KiroDesktopAuthorization {
+  url: string
+  state: string
+  codeVerifier: string
+  redirectUri: string
+  region: KiroRegion
+}
+
+export interface KiroDesktopTokenResult {
+  refreshToken: string
+  accessToken: string
+  expiresAt: number
+  profileArn?: string
+  region: KiroRegion
+  authMethod: 'desktop'
+}
+
+function base64Url(buf: Buffer): string {
+  return buf.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function authorizeKiroDesktop(
+  provider: KiroSocialProvider,
+  redirectUri: string,
+  region?: KiroRegion
+): KiroDesktopAuthorization {
+  const effectiveRegion = normalizeRegion(region)
+  const codeVerifier = base64Url(randomBytes(32))
+  const codeChallenge = base64Url(createHash('sha256').update(codeVerifier).digest())
+  const state = base64Url(randomBytes(16))
+
+  const url = new URL(`${buildUrl(KIRO_AUTH_SERVICE.ENDPOINT, effectiveRegion)}/login`)
+  url.searchParams.set('idp', provider)
+  url.searchParams.set('redirect_uri', redirectUri)
+  url.searchParams.set('code_challenge', codeChallenge)
+  url.searchParams.set('code_challenge_method', 'S256')
+  url.searchParams.set('state', state)
+
+  return { url: url.toString(), state, codeVerifier, redirectUri, region: effectiveRegion }
+}
+
+export async function exchangeKiroDesktopCode(
+  auth: KiroDesktopAuthorization,
+  code: string
+): Promise<KiroDesktopTokenResult> {
+  if (!code) throw new Error('Missing authorization code')
+
+  const res = await fetch(`${buildUrl(KIRO_AUTH_SERVICE.ENDPOINT, auth.region)}/oauth/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': KIRO_CONSTANTS.USER_AGENT
+    },
+    body: JSON.stringify({
+      code,
+      code_verifier: auth.codeVerifier,
+      redirect_uri: auth.redirectUri
+    })
+  })
+
+  const responseText = await res.text().catch(() => '')
+  let data: any = {}
+  if (responseText) {
+    try {
+      data = JSON.parse(responseText)
+    } catch {
+      throw new Error(
+        `Token exchange failed: invalid JSON response (HTTP ${res.status}): ${responseText.slice(0, 300)}`
+      )
+    }
+  }
+
+  if (!res.ok) {
+    throw new Error(
+      `Token exchange failed: ${res.status} ${data.message || data.error_description || data.error || responseText}`
+    )
+  }
+
+  const accessToken = data.accessToken || data.access_token
+  const refreshToken = data.refreshToken || data.refresh_token
+  if (!accessToken || !refreshToken) {
+    throw new Error('Token exchange response missing accessToken or refreshToken')
+  }
+
+  const expiresIn = data.expiresIn || data.expires_in || 3600
+  return {
+    refreshToken,
+    accessToken,
+    expiresAt: Date.now() + expiresIn * 1000,
+    profileArn: data.profileArn || data.profile_arn || undefined,
+    region: auth.region,
+    authMethod: 'desktop'
+  }
+}
@@ -1,10 +1,12 @@
 import { KIRO_CONSTANTS } from './constants.js'
 import { AuthHandler } from './core/auth/auth-handler.js'
+import { RefreshScheduler } from './core/auth/refresh-scheduler.js'
 import { RequestHandler } from './core/request/request-handler.js'
 import { AccountCache } from './infrastructure/database/account-cache.js'
 import { AccountRepository } from './infrastructure/database/account-repository.js'
 import { AccountManager } from './plugin/accounts.js'
 import { loadConfig } from './plugin/config/index.js'
+import { registerKiroModels } from './plugin/opencode-config.js'
 
 type ToastFunction = (message: string, variant: string) => void
 
@@ -23,12 +25,19 @@ export const createKiroPlugin =
     const repository = new AccountRepository(cache)
 
     const authHandler = new AuthHandler(config, repository)
-    const accountManager = await AccountManager.loadFromDisk(config.account_selection_strategy)
+    const accountManager = await AccountManager.loadFromDisk(
+      config.account_selection_strategy,
+      config.session_affinity_ttl_ms
+    )
     authHandler.setAccountManager(accountManager)
 
     const requestHandler = new RequestHandler(accountManager, config, repository)
+    new RefreshScheduler(config, accountManager, repository).start()
 
     return {
+      config: async (opencodeConfig: any) => {
+        if (config.auto_register_models) registerKiroModels(opencodeConfig, id)
+      },
       auth: {
         provider: id,
         loader: async (getAuth: any) => {
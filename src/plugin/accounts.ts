@@ -2,15 +2,19 @@ import { createHash } from 'node:crypto'
 import { decodeRefreshToken, encodeRefreshToken } from '../kiro/auth'
 import { isPermanentError } from './health'
 import * as logger from './logger'
-import { kiroDb } from './storage/sqlite'
+import { kiroDb, parseModelList } from './storage/sqlite'
 import { writeToKiroCli } from './sync/kiro-cli'
 import type {
+  AccountPoolSettings,
   AccountSelectionStrategy,
   KiroAuthDetails,
   ManagedAccount,
   RefreshParts
 } from './types'
 
+const RESET_HORIZON_DAYS = 30
+const RESET_URGENCY_WEIGHT = 1
+
 export function createDeterministicAccountId(
   email: string,
   method: string,
@@ -28,12 +32,22 @@ export class AccountManager {
   private strategy: AccountSelectionStrategy
   private lastToastTime = 0
   private lastUsageToastTime = 0
-  constructor(accounts: ManagedAccount[], strategy: AccountSelectionStrategy = 'sticky') {
+  private sessionAffinityTtlMs: number
+  private pinWrites: Promise<void> = Promise.resolve()
+  constructor(
+    accounts: ManagedAccount[],
+    strategy: AccountSelectionStrategy = 'sticky',
+    sessionAffinityTtlMs = 3600000
+  ) {
     this.accounts = accounts
     this.cursor = 0
     this.strategy = strategy
+    this.sessionAffinityTtlMs = sessionAffinityTtlMs
   }
-  static async loadFromDisk(strategy?: AccountSelectionStrategy): Promise<AccountManager> {
+  static async loadFromDisk(
+    strategy?: AccountSelectionStrategy,
+    sessionAffinityTtlMs?: number
+  ): Promise<AccountManager> {
     const rows = kiroDb.getAccounts()
     const accounts: ManagedAccount[] = rows.map((r: any) => ({
       id: r.id,
@@ -55,16 +69,32 @@ export class AccountManager {
       failCount: r.fail_count || 0,
       lastUsed: r.last_used,
       usedCount: r.used_count,
-      limitCount: r.limit_count
+      limitCount: r.limit_count,
+      quotaResetAt: r.quota_reset_at || undefined,
+      label: r.label || undefined,
+      priority: r.priority || 0,
+      allowedModels: parseModelList(r.allowed_models),
+      deniedModels: parseModelList(r.denied_models),
+      disabled: r.disabled === 1,
+      preferred: r.preferred === 1
     }))
-    return new AccountManager(accounts, strategy || 'sticky')
+    return new AccountManager(accounts, strategy || 'sticky', sessionAffinityTtlMs)
   }
   getAccountCount(): number {
     return this.accounts.length
   }
   getAccounts(): ManagedAccount[] {
+    this.syncSharedState()
     return [...this.accounts]
   }
+  syncSharedState(): void {
+    const states = new Map(kiroDb.getAccountStates().map((s) => [s.id, s]))
+    if (this.accounts.some((a) => !states.has(a.id))) {
+      this.accounts = this.accounts.filter((a) => states.has(a.id))
+      this.cursor = Math.min(this.cursor, Math.max(0, this.accounts.length - 1))
+    }
+    for (const a of this.accounts) Object.assign(a, states.get(a.id))
+  }
   shouldShowToast(debounce = 10000): boolean {
     if (Date.now() - this.lastToastTime < debounce) return false
     this.lastToastTime = Date.now()
@@ -77,30 +107,48 @@ export class AccountManager {
   }
   getMinWaitTime(): number {
     const now = Date.now()
-    const waits = this.accounts.map((a) => (a.rateLimitResetTime || 0) - now).filter((t) => t > 0)
+    const waits = this.accounts
+      .filter((a) => !a.disabled)
+      .map((a) => (a.rateLimitResetTime || 0) - now)
+      .filter((t) => t > 0)
     return waits.length > 0 ? Math.min(...waits) : 0
   }
-  getCurrentOrNext(): ManagedAccount | null {
+  hasAccountForModel(model: string): boolean {
+    return this.accounts.some((a) => isModelAllowed(a, model))
+  }
+  isSaturated(
+    model: string | undefined,
+    hasCapacity: (a: ManagedAccount) => boolean,
+    sessionKey?: string
+  ): boolean {
+    this.syncSharedState()
     const now = Date.now()
-    const available = this.accounts.filter((a) => {
-      if (!a.isHealthy) {
-        if (isPermanentError(a.unhealthyReason)) {
-          return false
-        }
-        if (a.failCount < 10 && a.recoveryTime && now >= a.recoveryTime) {
-          a.isHealthy = true
-          delete a.unhealthyReason
-          delete a.recoveryTime
-          return true
-        }
-        return false
-      }
-      return !(a.rateLimitResetTime && now < a.rateLimitResetTime)
-    })
+    const ready = this.getReadyAccounts(this.getEligibleAccounts(model), now)
+    const pinned = this.getPinnedAccount(ready, sessionKey, now)
+    return pinned ? !hasCapacity(pinned) : ready.length > 0 && !ready.some(hasCapacity)
+  }
+  getCurrentOrNext(
+    sessionKey?: string,
+    model?: string,
+    hasCapacity: (a: ManagedAccount) => boolean = () => true
+  ): ManagedAccount | null {
+    this.syncSharedState()
+    const now = Date.now()
+    const eligible = this.getEligibleAccounts(model)
+    const ready = this.getReadyAccounts(eligible, now)
+    const pinned = this.getPinnedAccount(ready, sessionKey, now)
+    // A pinned session waits for its own account's slot rather than moving to a free one.
+    if (pinned ? !hasCapacity(pinned) : ready.length > 0 && !ready.some(hasCapacity)) return null
+    const free = ready.filter(hasCapacity)
+    const topTier = Math.min(...free.map((a) => a.priority || 0))
+    const available = pinned ? [pinned] : free.filter((a) => (a.priority || 0) === topTier)
     let selected: ManagedAccount | undefined
     if (available.length > 0) {
       if (this.strategy === 'sticky') {
-        selected = available.find((_, i) => i === this.cursor) || available[0]
+        selected =
+          available.find((a) => a.preferred) ||
+          available.find((_, i) => i === this.cursor) ||
+          available[0]
       } else if (this.strategy === 'round-robin') {
         selected = available[this.cursor % available.length]
         this.cursor = (this.cursor + 1) % available.length
@@ -108,13 +156,28 @@ export class AccountManager {
         selected = [...available].sort(
           (a, b) => (a.usedCount || 0) - (b.usedCount || 0) || (a.lastUsed || 0) - (b.lastUsed || 0)
         )[0]
+      } else if (this.strategy === 'session-affinity') {
+        selected = this.selectForSession(available, sessionKey, now, model)
+      } else if (this.strategy === 'weighted-remaining') {
+        selected = [...available].sort(
+          (a, b) => quotaScore(b, now) - quotaScore(a, now) || (a.lastUsed || 0) - (b.lastUsed || 0)
+        )[0]
       }
     }
     if (!selected) {
-      const fallback = this.accounts
-        .filter((a) => !a.isHealthy && a.failCount < 10 && !isPermanentError(a.unhealthyReason))
+      const fallback = eligible
+        .filter(
+          (a) =>
+            !a.isHealthy &&
+            a.failCount < 10 &&
+            !isPermanentError(a.unhealthyReason) &&
+            hasCapacity(a)
+        )
         .sort(
-          (a, b) => (a.usedCount || 0) - (b.usedCount || 0) || (a.lastUsed || 0) - (b.lastUsed || 0)
+          (a, b) =>
+            (a.priority || 0) - (b.priority || 0) ||
+            (a.usedCount || 0) - (b.usedCount || 0) ||
+            (a.lastUsed || 0) - (b.lastUsed || 0)
         )[0]
       if (fallback) {
         fallback.isHealthy = true
@@ -131,18 +194,76 @@ export class AccountManager {
     }
     return null
   }
-  updateUsage(id: string, meta: { usedCount: number; limitCount: number; email?: string }): void {
+  private getEligibleAccounts(model?: string): ManagedAccount[] {
+    return this.accounts.filter((a) => !a.disabled && (!model || isModelAllowed(a, model)))
+  }
+  private getReadyAccounts(eligible: ManagedAccount[], now: number): ManagedAccount[] {
+    return eligible.filter((a) => {
+      if (!a.isHealthy) {
+        if (isPermanentError(a.unhealthyReason)) {
+          return false
+        }
+        if (a.failCount < 10 && a.recoveryTime && now >= a.recoveryTime) {
+          a.isHealthy = true
+          delete a.unhealthyReason
+          delete a.recoveryTime
+          return true
+        }
+        return false
+      }
+      return !(a.rateLimitResetTime && now < a.rateLimitResetTime)
+    })
+  }
+  private getPinnedAccount(
+    ready: ManagedAccount[],
+    sessionKey: string | undefined,
+    now: number
+  ): ManagedAccount | undefined {
+    if (this.strategy !== 'session-affinity' || !sessionKey) return undefined
+    const pinnedId = kiroDb.getSessionPin(sessionKey, now)
+    return ready.find((a) => a.id === pinnedId && !isQuotaExhausted(a))
+  }
+  private selectForSession(
+    available: ManagedAccount[],
+    sessionKey: string | undefined,
+    now: number,
+    model?: string
+  ): ManagedAccount | undefined {
+    const candidates = available.filter((a) => !isQuotaExhausted(a))
+    const pool = candidates.length > 0 ? candidates : available
+    const pinnedId = sessionKey ? kiroDb.getSessionPin(sessionKey, now) : null
+    const selected =
+      pool.find((a) => a.id === pinnedId) ||
+      [...pool].sort(
+        (a, b) => (a.usedCount || 0) - (b.usedCount || 0) || (a.lastUsed || 0) - (b.lastUsed || 0)
+      )[0]
+    if (!sessionKey || !selected) return selected
+    if (pinnedId && pinnedId !== selected.id) {
+      const previous = this.accounts.find((a) => a.id === pinnedId)
+      logger.log('Session moved to another account', {
+        sessionKey,
+        from: previous?.email || pinnedId,
+        to: selected.email,
+        reason: previous ? unpinReason(previous, now, model) : 'removed'
+      })
+    }
+    const expiresAt = now + this.sessionAffinityTtlMs
+    this.pinWrites = this.pinWrites
+      .then(() => kiroDb.setSessionPin(sessionKey, selected.id, expiresAt))
+      .catch(() => {})
+    return selected
+  }
+  updateUsage(
+    id: string,
+    meta: { usedCount: number; limitCount: number; quotaResetAt?: number; email?: string }
+  ): void {
     const a = this.accounts.find((x) => x.id === id)
     if (a) {
       a.usedCount = meta.usedCount
       a.limitCount = meta.limitCount
+      if (meta.quotaResetAt) a.quotaResetAt = meta.quotaResetAt
       if (meta.email) a.email = meta.email
-      if (!isPermanentError(a.unhealthyReason)) {
-        a.failCount = 0
-        a.isHealthy = true
-        delete a.unhealthyReason
-        delete a.recoveryTime
-      }
+      if (!isPermanentError(a.unhealthyReason)) this.markHealthy(a)
       kiroDb.upsertAccount(a).catch(() => {})
     }
   }
@@ -150,6 +271,7 @@ export class AccountManager {
     const i = this.accounts.findIndex((x) => x.id === a.id)
     if (i === -1) this.accounts.push(a)
     else this.accounts[i] = a
+    kiroDb.setAccountState(a)
     kiroDb.upsertAccount(a).catch(() => {})
   }
   removeAccount(a: ManagedAccount): void {
@@ -172,10 +294,7 @@ export class AccountManager {
       acc.refreshToken = p.refreshToken
       if (p.profileArn) acc.profileArn = p.profileArn
       if (p.clientId) acc.clientId = p.clientId
-      acc.failCount = 0
-      acc.isHealthy = true
-      delete acc.unhealthyReason
-      delete acc.recoveryTime
+      this.markHealthy(acc)
       kiroDb.upsertAccount(acc).catch(() => {})
       writeToKiroCli(acc).catch(() => {})
     }
@@ -183,10 +302,49 @@ export class AccountManager {
   markRateLimited(a: ManagedAccount, ms: number): void {
     const acc = this.accounts.find((x) => x.id === a.id)
     if (acc) {
-      acc.rateLimitResetTime = Date.now() + ms
-      kiroDb.upsertAccount(acc).catch(() => {})
+      acc.rateLimitResetTime = Math.max(acc.rateLimitResetTime || 0, Date.now() + ms)
+      kiroDb.setAccountRateLimit(acc.id, acc.rateLimitResetTime)
     }
   }
+  suspendUntil(a: ManagedAccount, reason: string, until: number): void {
+    const acc = this.accounts.find((x) => x.id === a.id)
+    if (!acc || isPermanentError(acc.unhealthyReason)) return
+    acc.isHealthy = false
+    acc.unhealthyReason = reason
+    acc.recoveryTime = until
+    kiroDb.setAccountState(acc)
+  }
+  setDisabled(a: ManagedAccount, disabled: boolean): void {
+    const acc = this.accounts.find((x) => x.id === a.id) || a
+    acc.disabled = disabled
+    kiroDb.setAccountDisabled(acc.id, disabled)
+  }
+  setPreferred(a: ManagedAccount | null): void {
+    for (const acc of this.accounts) acc.preferred = acc.id === a?.id
+    kiroDb.setPreferredAccount(a?.id || null)
+  }
+  setPoolSettings(a: ManagedAccount, settings: AccountPoolSettings): void {
+    const acc = this.accounts.find((x) => x.id === a.id) || a
+    Object.assign(acc, settings)
+    kiroDb.setAccountPoolSettings(acc.id, acc)
+  }
+  resetHealth(a: ManagedAccount): void {
+    const acc = this.accounts.find((x) => x.id === a.id) || a
+    acc.failCount = 0
+    acc.isHealthy = true
+    acc.rateLimitResetTime = 0
+    delete acc.unhealthyReason
+    delete acc.recoveryTime
+    kiroDb.resetAccountHealth(acc.id)
+  }
+  markHealthy(a: ManagedAccount): void {
+    const acc = this.accounts.find((x) => x.id === a.id) || a
+    acc.failCount = 0
+    acc.isHealthy = true
+    delete acc.unhealthyReason
+    delete acc.recoveryTime
+    kiroDb.setAccountState(acc)
+  }
   markUnhealthy(a: ManagedAccount, reason: string, recovery?: number): void {
     const acc = this.accounts.find((x) => x.id === a.id)
     if (!acc) return
@@ -203,40 +361,86 @@ export class AccountManager {
       acc.isHealthy = false
       acc.unhealthyReason = reason
       delete acc.recoveryTime
-    } else {
-      acc.failCount = (acc.failCount || 0) + 1
-      acc.unhealthyReason = reason
-      acc.lastUsed = Date.now()
-      if (acc.failCount >= 10) {
-        acc.isHealthy = false
-        acc.recoveryTime = recovery || Date.now() + 3600000
-      }
+      kiroDb.setAccountState(acc)
+      return
     }
 
+    const recoveryTime = recovery || Date.now() + 3600000
+    const state = kiroDb.recordAccountFailure(acc.id, reason, recoveryTime)
+    acc.lastUsed = Date.now()
+    if (state) {
+      Object.assign(acc, state)
+      return
+    }
+    acc.failCount = (acc.failCount || 0) + 1
+    acc.unhealthyReason = reason
+    if (acc.failCount >= 10) {
+      acc.isHealthy = false
+      acc.recoveryTime = recoveryTime
+    }
     kiroDb.upsertAccount(acc).catch(() => {})
   }
   async saveToDisk(): Promise<void> {
     await kiroDb.batchUpsertAccounts(this.accounts)
   }
   toAuthDetails(a: ManagedAccount): KiroAuthDetails {
-    const p: RefreshParts = {
-      refreshToken: a.refreshToken,
-      profileArn: a.profileArn,
-      clientId: a.clientId,
-      clientSecret: a.clientSecret,
-      authMethod: a.authMethod
-    }
-    return {
-      refresh: encodeRefreshToken(p),
-      access: a.accessToken,
-      expires: a.expiresAt,
-      authMethod: a.authMethod,
-      region: a.region,
-      oidcRegion: a.oidcRegion,
-      profileArn: a.profileArn,
-      clientId: a.clientId,
-      clientSecret: a.clientSecret,
-      email: a.email
-    }
+    return toAuthDetails(a)
   }
 }
+
+export function toAuthDetails(a: ManagedAccount): KiroAuthDetails {
+  const p: RefreshParts = {
+    refreshToken: a.refreshToken,
+    profileArn: a.profileArn,
+    clientId: a.clientId,
+    clientSecret: a.clientSecret,
+    authMethod: a.authMethod
+  }
+  return {
+    refresh: encodeRefreshToken(p),
+    access: a.accessToken,
+    expires: a.expiresAt,
+    authMethod: a.authMethod,
+    region: a.region,
+    oidcRegion: a.oidcRegion,
+    profileArn: a.profileArn,
+    clientId: a.clientId,
+    clientSecret: a.clientSecret,
+    email: a.email
+  }
+}
+
+function isQuotaExhausted(a: ManagedAccount): boolean {
+  return !!a.limitCount && (a.usedCount || 0) >= a.limitCount
+}
+
+function quotaScore(a: ManagedAccount, now: number): number {
+  if (a.quotaResetAt && a.quotaResetAt <= now) return 1 + RESET_URGENCY_WEIGHT
+  const remaining = a.limitCount ? Math.max(0, a.limitCount - (a.usedCount || 0)) / a.limitCount : 1
+  if (!a.quotaResetAt) return remaining
+  const daysUntilReset = (a.quotaResetAt - now) / 86400000
+  const urgency = Math.max(0, 1 - daysUntilReset / RESET_HORIZON_DAYS)
+  return remaining * (1 + RESET_URGENCY_WEIGHT * urgency)
+}
+
+function unpinReason(a: ManagedAccount, now: number, model?: string): string {
+  if (model && !isModelAllowed(a, model)) return 'model not allowed'
+  if (!a.isHealthy) return a.unhealthyReason || 'unhealthy'
+  if (a.rateLimitResetTime && now < a.rateLimitResetTime) return 'rate-limited'
+  if (isQuotaExhausted(a)) return 'out of quota'
+  return 'lower priority tier'
+}
+
+export function isModelAllowed(a: ManagedAccount, model: string): boolean {
+  if (a.deniedModels?.some((p) => matchesModelPattern(p, model))) return false
+  return !a.allowedModels?.length || a.allowedModels.some((p) => matchesModelPattern(p, model))
+}
+
+function matchesModelPattern(pattern: string, model: string): boolean {
+  const source = pattern
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`, 'i').test(model)
+}
@@ -259,7 +259,7 @@ export function getIDCAuthHtml(
 </html>`
 }
 
-export function getSuccessHtml(): string {
+export function getSuccessHtml(providerName = 'AWS Builder ID'): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -376,7 +376,7 @@ export function getSuccessHtml(): string {
       <div class="checkmark-check"></div>
     </div>
     <h1>Authentication Successful!</h1>
-    <p class="message">You have been successfully authenticated with AWS Builder ID. You can now close this window and return to your terminal.</p>
+    <p class="message">You have been successfully authenticated with ${escapeHtml(providerName)}. You can now close this window and return to your terminal.</p>
     <div class="auto-close">This window will close automatically in <span id="countdown">3</span> seconds</div>
   </div>
 
@@ -581,9 +581,14 @@ export function getErrorHtml(message: string): string {
 </html>`
 }
 
-export function getStartUrlInputHtml(defaultStartUrl: string, submitUrl: string): string {
+export function getStartUrlInputHtml(
+  defaultStartUrl: string,
+  submitUrl: string,
+  defaultRegion = 'us-east-1'
+): string {
   const escapedDefault = escapeHtml(defaultStartUrl)
   const escapedSubmit = escapeHtml(submitUrl)
+  const escapedRegion = escapeHtml(defaultRegion)
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -674,6 +679,16 @@ export function getStartUrlInputHtml(defaultStartUrl: string, submitUrl: string)
         spellcheck="false"
       />
       <div class="hint">Leave blank to sign in with <strong>AWS Builder ID</strong></div>
+      <label for="region">Region</label>
+      <input
+        type="text"
+        id="region"
+        name="region"
+        placeholder="us-east-1"
+        value="${escapedRegion}"
+        spellcheck="false"
+      />
+      <div class="hint">The AWS region of your Identity Center instance</div>
       <div class="error" id="error"></div>
       <button type="submit" id="btn">Continue</button>
     </form>
@@ -691,6 +706,7 @@ export function getStartUrlInputHtml(defaultStartUrl: string, submitUrl: string)
       const btn = document.getElementById('btn');
       const loading = document.getElementById('loading');
       const val = input.value.trim();
+      const region = document.getElementById('region').value.trim();
 
       if (val) {
         try { new URL(val); } catch {
@@ -708,7 +724,7 @@ export function getStartUrlInputHtml(defaultStartUrl: string, submitUrl: string)
         const res = await fetch('${escapedSubmit}', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ startUrl: val || '' })
+          body: JSON.stringify({ startUrl: val || '', region: region || '' })
         });
         const data = await res.json();
         if (data.error) {
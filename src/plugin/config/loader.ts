@@ -111,6 +111,16 @@ function applyEnvOverrides(config: KiroConfig): KiroConfig {
         )
       : config.account_selection_strategy,
 
+    session_affinity_ttl_ms: parseNumberEnv(
+      env.KIRO_SESSION_AFFINITY_TTL_MS,
+      config.session_affinity_ttl_ms
+    ),
+
+    max_concurrent_per_account: parseNumberEnv(
+      env.KIRO_MAX_CONCURRENT_PER_ACCOUNT,
+      config.max_concurrent_per_account
+    ),
+
     default_region: env.KIRO_DEFAULT_REGION
       ? RegionSchema.catch('us-east-1').parse(env.KIRO_DEFAULT_REGION)
       : config.default_region,
@@ -137,11 +147,18 @@ function applyEnvOverrides(config: KiroConfig): KiroConfig {
       config.token_expiry_buffer_ms
     ),
 
+    background_refresh_enabled: parseBooleanEnv(
+      env.KIRO_BACKGROUND_REFRESH_ENABLED,
+      config.background_refresh_enabled
+    ),
+
     usage_sync_max_retries: parseNumberEnv(
       env.KIRO_USAGE_SYNC_MAX_RETRIES,
       config.usage_sync_max_retries
     ),
 
+    auth_server_enabled: parseBooleanEnv(env.KIRO_AUTH_SERVER_ENABLED, config.auth_server_enabled),
+
     auth_server_port_start: parseNumberEnv(
       env.KIRO_AUTH_SERVER_PORT_START,
       config.auth_server_port_start
@@ -157,10 +174,31 @@ function applyEnvOverrides(config: KiroConfig): KiroConfig {
       config.usage_tracking_enabled
     ),
 
+    auto_register_models: parseBooleanEnv(
+      env.KIRO_AUTO_REGISTER_MODELS,
+      config.auto_register_models
+    ),
+
+    model_discovery_enabled: parseBooleanEnv(
+      env.KIRO_MODEL_DISCOVERY_ENABLED,
+      config.model_discovery_enabled
+    ),
+
+    model_discovery_ttl_ms: parseNumberEnv(
+      env.KIRO_MODEL_DISCOVERY_TTL_MS,
+      config.model_discovery_ttl_ms
+    ),
+
     enable_log_api_request: parseBooleanEnv(
       env.KIRO_ENABLE_LOG_API_REQUEST,
       config.enable_log_api_request
-    )
+    ),
+
+    gateway_host: env.KIRO_GATEWAY_HOST || config.gateway_host,
+
+    gateway_port: parseNumberEnv(env.KIRO_GATEWAY_PORT, config.gateway_port),
+
+    gateway_api_key: env.KIRO_GATEWAY_API_KEY || config.gateway_api_key
   }
 }
 
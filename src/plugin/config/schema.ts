@@ -1,6 +1,12 @@
 import { z } from 'zod'
 
-export const AccountSelectionStrategySchema = z.enum(['sticky', 'round-robin', 'lowest-usage'])
+export const AccountSelectionStrategySchema = z.enum([
+  'sticky',
+  'round-robin',
+  'lowest-usage',
+  'session-affinity',
+  'weighted-remaining'
+])
 export type AccountSelectionStrategy = z.infer<typeof AccountSelectionStrategySchema>
 
 export const RegionSchema = z.enum([
@@ -50,6 +56,10 @@ export const KiroConfigSchema = z.object({
 
   account_selection_strategy: AccountSelectionStrategySchema.default('lowest-usage'),
 
+  session_affinity_ttl_ms: z.number().min(60000).max(604800000).default(3600000),
+
+  max_concurrent_per_account: z.number().min(0).max(64).default(0),
+
   default_region: RegionSchema.default('us-east-1'),
 
   rate_limit_retry_delay_ms: z.number().min(1000).max(60000).default(5000),
@@ -62,31 +72,51 @@ export const KiroConfigSchema = z.object({
 
   token_expiry_buffer_ms: z.number().min(30000).max(300000).default(300000),
 
+  background_refresh_enabled: z.boolean().default(true),
+
   usage_sync_max_retries: z.number().min(0).max(5).default(3),
 
+  auth_server_enabled: z.boolean().default(false),
+
   auth_server_port_start: z.number().min(1024).max(65535).default(19847),
 
   auth_server_port_range: z.number().min(1).max(100).default(10),
 
   usage_tracking_enabled: z.boolean().default(true),
   auto_sync_kiro_cli: z.boolean().default(true),
-  enable_log_api_request: z.boolean().default(false)
+  auto_register_models: z.boolean().default(true),
+  model_discovery_enabled: z.boolean().default(true),
+  model_discovery_ttl_ms: z.number().min(60000).max(604800000).default(21600000),
+  enable_log_api_request: z.boolean().default(false),
+
+  gateway_host: z.string().default('127.0.0.1'),
+  gateway_port: z.number().min(1).max(65535).default(8787),
+  gateway_api_key: z.string().optional()
 })
 
 export type KiroConfig = z.infer<typeof KiroConfigSchema>
 
 export const DEFAULT_CONFIG: KiroConfig = {
   account_selection_strategy: 'lowest-usage',
+  session_affinity_ttl_ms: 3600000,
+  max_concurrent_per_account: 0,
   default_region: 'us-east-1',
   rate_limit_retry_delay_ms: 5000,
   rate_limit_max_retries: 3,
   max_request_iterations: 20,
   request_timeout_ms: 120000,
   token_expiry_buffer_ms: 300000,
+  background_refresh_enabled: true,
   usage_sync_max_retries: 3,
+  auth_server_enabled: false,
   auth_server_port_start: 19847,
   auth_server_port_range: 10,
   usage_tracking_enabled: true,
   auto_sync_kiro_cli: true,
-  enable_log_api_request: false
+  auto_register_models: true,
+  model_discovery_enabled: true,
+  model_discovery_ttl_ms: 21600000,
+  enable_log_api_request: false,
+  gateway_host: '127.0.0.1',
+  gateway_port: 8787
 }
@@ -39,3 +39,46 @@ export class KiroAuthError extends Error {
     this.statusCode = statusCode
   }
 }
+
+export class KiroValidationError extends Error {
+  field?: string
+
+  constructor(message: string, field?: string) {
+    super(message)
+    this.name = 'KiroValidationError'
+    this.field = field
+  }
+}
+
+export class KiroStreamError extends Error {
+  exceptionType: string
+
+  constructor(message: string, exceptionType: string) {
+    super(message)
+    this.name = 'KiroStreamError'
+    this.exceptionType = exceptionType
+  }
+}
+
+export class KiroStorageKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KiroStorageKeyError'
+  }
+}
+
+export function errorFromStreamException(exceptionType: string, message: string): Error {
+  if (
+    exceptionType === 'ServiceQuotaExceededException' ||
+    /MONTHLY_REQUEST_COUNT|quota/i.test(message)
+  ) {
+    return new KiroQuotaExhaustedError(message)
+  }
+  if (exceptionType === 'ThrottlingException') {
+    return new KiroRateLimitError(message)
+  }
+  if (exceptionType === 'ValidationException') {
+    return new KiroValidationError(message)
+  }
+  return new KiroStreamError(`${exceptionType}: ${message}`, exceptionType)
+}
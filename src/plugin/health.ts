@@ -1,3 +1,5 @@
+import { KiroTokenRefreshError } from './errors'
+
 export function isPermanentError(reason?: string): boolean {
   if (!reason) return false
   return (
@@ -8,3 +10,14 @@ export function isPermanentError(reason?: string): boolean {
     reason.includes('HTTP_403')
   )
 }
+
+export function isPermanentRefreshError(error: unknown): error is KiroTokenRefreshError {
+  return (
+    error instanceof KiroTokenRefreshError &&
+    (error.code === 'ExpiredTokenException' ||
+      error.code === 'InvalidTokenException' ||
+      error.code === 'HTTP_401' ||
+      error.code === 'HTTP_403' ||
+      error.message.includes('Invalid refresh token provided'))
+  )
+}
@@ -0,0 +1,55 @@
+import { KIRO_CONSTANTS } from '../constants.js'
+import type { DiscoveredModel, KiroAuthDetails } from './types'
+
+const MAX_PAGES = 10
+const FETCH_TIMEOUT_MS = 15000
+
+export async function fetchAvailableModels(auth: KiroAuthDetails): Promise<DiscoveredModel[]> {
+  const models: DiscoveredModel[] = []
+  let nextToken: string | undefined
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const url = new URL(KIRO_CONSTANTS.LIST_MODELS_URL.replace('{{region}}', auth.region))
+    url.searchParams.set('origin', KIRO_CONSTANTS.ORIGIN_AI_EDITOR)
+    if (auth.profileArn) url.searchParams.set('profileArn', auth.profileArn)
+    if (nextToken) url.searchParams.set('nextToken', nextToken)
+
+    const res = await fetch(url.toString(), {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${auth.access}`,
+        'Content-Type': 'application/json',
+        'x-amzn-kiro-agent-mode': 'vibe',
+        'amz-sdk-request': 'attempt=1; max=1'
+      },
+      signal
+    })
+    if (!res.ok) {
+      const body = await res.text().catch(() => '')
+      const errType =
+        res.headers.get('x-amzn-errortype') || res.headers.get('x-amzn-error-type') || ''
+      throw new Error(
+        `Status: ${res.status}${errType ? ` (${errType})` : ''}: ${body.slice(0, 500) || `HTTP ${res.status}`}`
+      )
+    }
+
+    const data: any = await res.json()
+    for (const m of Array.isArray(data.models) ? data.models : []) {
+      if (!m?.modelId) continue
+      models.push({
+        modelId: m.modelId,
+        modelName: m.modelName || undefined,
+        description: m.description || undefined,
+        maxInputTokens: m.tokenLimits?.maxInputTokens || undefined,
+        maxOutputTokens: m.tokenLimits?.maxOutputTokens || undefined,
+        inputTypes: Array.isArray(m.supportedInputTypes) ? m.supportedInputTypes : []
+      })
+    }
+
+    nextToken = data.nextToken
+    if (!nextToken) break
+  }
+
+  return models
+}
@@ -1,9 +1,122 @@
-import { MODEL_MAPPING, SUPPORTED_MODELS } from '../constants'
+import { DEFAULT_CONTEXT_WINDOW, MODEL_REGISTRY } from '../constants'
+import { KiroValidationError } from './errors.js'
+import type { DiscoveredModel, KiroModelInfo, ModelInputModality } from './types'
+
+const TOOL_RESULT_CHARS_PER_CONTEXT_TOKEN = 1.25
+const OUTPUT_RESERVE_SHARE = 0.125
+
+const discoveredModels = new Map<string, KiroModelInfo>()
+const discoveredAliases = new Map<string, string>()
+
+export function getAllModels(): Record<string, KiroModelInfo> {
+  return { ...Object.fromEntries(discoveredModels), ...MODEL_REGISTRY }
+}
+
+function findModel(model: string): KiroModelInfo | undefined {
+  return (
+    MODEL_REGISTRY[model] ||
+    discoveredModels.get(model) ||
+    discoveredModels.get(discoveredAliases.get(model) || '')
+  )
+}
+
+export function isKnownModel(model: string): boolean {
+  return !!findModel(model)
+}
+
+export function getModelInfo(model: string): KiroModelInfo {
+  const info = findModel(model)
+  if (!info) {
+    throw new KiroValidationError(
+      `Unsupported model: ${model}. Supported models: ${Object.keys(getAllModels()).join(', ')}`,
+      'model'
+    )
+  }
+  return info
+}
+
+export function registerDiscoveredModels(models: DiscoveredModel[]): void {
+  const staticIds = new Set(Object.values(MODEL_REGISTRY).map((m) => m.kiroModelId))
+  for (const m of models) {
+    if (staticIds.has(m.modelId)) continue
+    const alias = m.modelId.toLowerCase().replace(/[._]/g, '-')
+    const id = MODEL_REGISTRY[alias] ? m.modelId : alias
+    discoveredModels.set(id, toModelInfo(m))
+    if (id !== m.modelId) discoveredAliases.set(m.modelId, id)
+  }
+}
+
+function toModelInfo(m: DiscoveredModel): KiroModelInfo {
+  const isClaude = /claude/i.test(m.modelId)
+  const input = m.inputTypes
+    .map((t) => t.toLowerCase())
+    .filter((t): t is ModelInputModality => t === 'text' || t === 'image' || t === 'pdf')
+  return {
+    kiroModelId: m.modelId,
+    name: m.modelName || m.modelId,
+    contextWindow: m.maxInputTokens || DEFAULT_CONTEXT_WINDOW,
+    maxOutput: m.maxOutputTokens || 32768,
+    thinking: isClaude ? 'optional' : 'none',
+    input: input.includes('text') ? input : ['text', ...input],
+    toolCalling: true,
+    charsPerToken: isClaude ? 3.5 : 4
+  }
+}
 
 export function resolveKiroModel(model: string): string {
-  const resolved = MODEL_MAPPING[model]
-  if (!resolved) {
-    throw new Error(`Unsupported model: ${model}. Supported models: ${SUPPORTED_MODELS.join(', ')}`)
+  return getModelInfo(model).kiroModelId
+}
+
+export function getModelContextWindow(model: string): number {
+  return getModelInfo(model).contextWindow
+}
+
+export function getModelCharsPerToken(model: string | undefined): number {
+  return (model && findModel(model)?.charsPerToken) || 4
+}
+
+export function isThinkingEnabled(model: string, requested: boolean): boolean {
+  const { thinking } = getModelInfo(model)
+  return thinking === 'always' || (thinking === 'optional' && requested)
+}
+
+export function getTruncationLimits(
+  info: KiroModelInfo,
+  reductionFactor: number
+): { toolResultLimit: number; contextTokenBudget: number } {
+  const outputReserve = Math.min(info.maxOutput, info.contextWindow * OUTPUT_RESERVE_SHARE)
+  return {
+    toolResultLimit: Math.floor(
+      info.contextWindow * TOOL_RESULT_CHARS_PER_CONTEXT_TOKEN * reductionFactor
+    ),
+    contextTokenBudget: Math.floor((info.contextWindow - outputReserve) * reductionFactor)
+  }
+}
+
+export function validateModelInput(model: string, messages: any[], tools: any[] | undefined): void {
+  const info = getModelInfo(model)
+  if (tools?.length && !info.toolCalling) {
+    throw new KiroValidationError(`Model ${model} does not support tool calling`, 'tools')
+  }
+  for (const modality of findInputModalities(messages)) {
+    if (!info.input.includes(modality)) {
+      throw new KiroValidationError(`Model ${model} does not accept ${modality} input`, 'messages')
+    }
+  }
+}
+
+function findInputModalities(messages: any[]): Set<ModelInputModality> {
+  const found = new Set<ModelInputModality>()
+  for (const m of messages) {
+    if (!Array.isArray(m.content)) continue
+    for (const p of m.content) {
+      if (p.type === 'image' || p.type === 'image_url') found.add('image')
+      else if (
+        p.type === 'document' ||
+        (p.type === 'file' && String(p.mediaType || p.mimeType || '').includes('pdf'))
+      )
+        found.add('pdf')
+    }
   }
-  return resolved
+  return found
 }
@@ -0,0 +1,47 @@
+import { getAllModels } from './models.js'
+import type { KiroModelInfo } from './types'
+
+const THINKING_VARIANTS = {
+  low: { thinkingConfig: { thinkingBudget: 8192 } },
+  medium: { thinkingConfig: { thinkingBudget: 16384 } },
+  max: { thinkingConfig: { thinkingBudget: 32768 } }
+}
+
+export function registerKiroModels(config: any, providerId: string): void {
+  config.provider ??= {}
+  const provider = (config.provider[providerId] ??= {})
+  provider.name ??= 'Kiro'
+  provider.models ??= {}
+
+  for (const [id, info] of Object.entries(getAllModels())) {
+    provider.models[id] = mergeDefaults(toOpenCodeModel(info), provider.models[id])
+  }
+}
+
+function toOpenCodeModel(info: KiroModelInfo): Record<string, unknown> {
+  const model: Record<string, unknown> = {
+    name: info.name,
+    attachment: info.input.some((m) => m !== 'text'),
+    reasoning: info.thinking !== 'none',
+    tool_call: info.toolCalling,
+    limit: { context: info.contextWindow, output: info.maxOutput },
+    modalities: { input: [...info.input], output: ['text'] }
+  }
+  if (info.thinking === 'always') model.variants = THINKING_VARIANTS
+  return model
+}
+
+function mergeDefaults(defaults: any, overrides: any): any {
+  if (!isPlainObject(defaults) || !isPlainObject(overrides)) {
+    return overrides === undefined ? defaults : overrides
+  }
+  const merged: Record<string, unknown> = { ...defaults }
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = mergeDefaults(defaults[key], value)
+  }
+  return merged
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
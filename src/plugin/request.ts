@@ -11,9 +11,12 @@ import {
 import {
   findOriginalToolCall,
   getContentText,
-  mergeAdjacentMessages,
-  truncate
+  mergeAdjacentMessages
 } from '../infrastructure/transformers/message-transformer.js'
+import {
+  compactToolResult,
+  toToolResultSource
+} from '../infrastructure/transformers/tool-result-compactor.js'
 import {
   convertToolsToCodeWhisperer,
   deduplicateToolResults
@@ -23,7 +26,8 @@ import {
   extractAllImages,
   extractTextFromParts
 } from './image-handler.js'
-import { resolveKiroModel } from './models.js'
+import { getModelInfo, getTruncationLimits, validateModelInput } from './models.js'
+import { estimateTokens } from './response.js'
 import type { CodeWhispererRequest, KiroAuthDetails, PreparedRequest } from './types'
 
 export function transformToCodeWhisperer(
@@ -33,16 +37,18 @@ export function transformToCodeWhisperer(
   auth: KiroAuthDetails,
   think = false,
   budget = 20000,
-  reductionFactor = 1.0
+  reductionFactor = 1.0,
+  convId: string = crypto.randomUUID()
 ): PreparedRequest {
   const req = typeof body === 'string' ? JSON.parse(body) : body
   const { messages, tools, system } = req
-  const convId = crypto.randomUUID()
   if (!messages || messages.length === 0) throw new Error('No messages')
-  const resolved = resolveKiroModel(model)
+  const modelInfo = getModelInfo(model)
+  const resolved = modelInfo.kiroModelId
+  validateModelInput(model, messages, tools)
   const systemMsgs = messages.filter((m: any) => m.role === 'system')
   const otherMsgs = messages.filter((m: any) => m.role !== 'system')
-  let sys = system || ''
+  let sys = typeof system === 'string' ? system : getContentText({ content: system })
   if (systemMsgs.length > 0) {
     const extractedSystem = systemMsgs.map((m: any) => getContentText(m)).join('\n\n')
     sys = sys ? `${sys}\n\n${extractedSystem}` : extractedSystem
@@ -55,13 +61,25 @@ export function transformToCodeWhisperer(
   const lastMsg = msgs[msgs.length - 1]
   if (lastMsg && lastMsg.role === 'assistant' && getContentText(lastMsg) === '{') msgs.pop()
   const cwTools = tools ? convertToolsToCodeWhisperer(tools) : []
-  const toolResultLimit = Math.floor(250000 * reductionFactor)
+  const { toolResultLimit, contextTokenBudget } = getTruncationLimits(modelInfo, reductionFactor)
   let history = buildHistory(msgs, resolved, toolResultLimit)
-  const historyLimit = Math.floor(850000 * reductionFactor)
-  history = truncateHistory(history, historyLimit)
+  const reservedTokens =
+    estimateTokens(sys, model) +
+    estimateTokens(getContentText(msgs[msgs.length - 1]), model) +
+    estimateTokens(JSON.stringify(cwTools), model)
+  history = truncateHistory(history, {
+    maxTokens: Math.max(0, contextTokenBudget - reservedTokens),
+    model
+  })
   history = injectSystemPrompt(history, sys, resolved)
   const curMsg = msgs[msgs.length - 1]
   if (!curMsg) throw new Error('Empty')
+  const compactCurrent = (text: string, toolUseId: string) =>
+    compactToolResult(
+      text,
+      toolResultLimit,
+      toToolResultSource(findOriginalToolCall(messages, toolUseId))
+    )
   let curContent = ''
   const curTrs: any[] = []
   const curImgs: any[] = []
@@ -109,13 +127,13 @@ export function transformToCodeWhisperer(
       if (curMsg.tool_results) {
         for (const tr of curMsg.tool_results)
           curTrs.push({
-            content: [{ text: truncate(getContentText(tr), toolResultLimit) }],
+            content: [{ text: compactCurrent(getContentText(tr), tr.tool_call_id) }],
             status: 'success',
             toolUseId: tr.tool_call_id
           })
       } else {
         curTrs.push({
-          content: [{ text: truncate(getContentText(curMsg), toolResultLimit) }],
+          content: [{ text: compactCurrent(getContentText(curMsg), curMsg.tool_call_id) }],
           status: 'success',
           toolUseId: curMsg.tool_call_id
         })
@@ -126,7 +144,7 @@ export function transformToCodeWhisperer(
       for (const p of curMsg.content) {
         if (p.type === 'tool_result') {
           curTrs.push({
-            content: [{ text: truncate(getContentText(p.content || p), toolResultLimit) }],
+            content: [{ text: compactCurrent(getContentText(p.content || p), p.tool_use_id) }],
             status: 'success',
             toolUseId: p.tool_use_id
           })
@@ -254,7 +272,7 @@ export function transformToCodeWhisperer(
       },
       body: JSON.stringify(request)
     },
-    streaming: true,
+    streaming: req.stream === true,
     effectiveModel: resolved,
     conversationId: convId
   }
@@ -0,0 +1,46 @@
+import { createHash } from 'node:crypto'
+import { getContentText } from '../infrastructure/transformers/message-transformer.js'
+
+const SESSION_HEADERS = ['x-opencode-session', 'x-session-id', 'session_id', 'session-id']
+
+export function resolveSessionKey(headers: Headers, body: any): string | null {
+  for (const name of SESSION_HEADERS) {
+    const value = headers.get(name)
+    if (value) return `session:${value}`
+  }
+  const bodyKey =
+    body?.metadata?.session_id || body?.prompt_cache_key || body?.providerOptions?.promptCacheKey
+  if (typeof bodyKey === 'string' && bodyKey) return `session:${bodyKey}`
+
+  // Without an explicit id, only a conversation that already has an assistant reply is
+  // distinctive enough to key on; the first turn of every chat would otherwise collide.
+  const messages: any[] = Array.isArray(body?.messages) ? body.messages : []
+  const firstAssistant = messages.find((m) => m.role === 'assistant')
+  if (!firstAssistant) return null
+  const system = [{ content: body?.system }, ...messages.filter((m) => m.role === 'system')]
+  return `first-turn:${sha256(
+    JSON.stringify([
+      system.map(getContentText),
+      getContentText(messages.find((m) => m.role === 'user')),
+      getContentText(firstAssistant)
+    ])
+  )}`
+}
+
+export function hashMessages(messages: any[]): string {
+  const hash = createHash('sha256')
+  for (const m of messages) {
+    hash.update(`${m.role}\u0000${JSON.stringify(m.content ?? '')}\u0000`)
+  }
+  return hash.digest('hex')
+}
+
+export function conversationIdFor(sessionKey: string, generation: number): string {
+  const h = sha256(`${sessionKey}#${generation}`)
+  const variant = ((parseInt(h[16]!, 16) & 0x3) | 0x8).toString(16)
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-4${h.slice(13, 16)}-${variant}${h.slice(17, 20)}-${h.slice(20, 32)}`
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
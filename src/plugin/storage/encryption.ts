@@ -0,0 +1,72 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac } from 'node:crypto'
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { KiroStorageKeyError } from '../errors'
+
+const PREFIX = 'enc:v1:'
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+export const SECRET_COLUMNS = ['refresh_token', 'access_token', 'client_secret'] as const
+
+export function loadEncryptionKey(defaultKeyFile: string): Buffer | undefined {
+  const fromEnv = process.env.KIRO_DB_ENCRYPTION_KEY?.trim()
+  if (fromEnv) return deriveKey(fromEnv)
+
+  const keyFile = process.env.KIRO_DB_KEY_FILE || defaultKeyFile
+  if (!existsSync(keyFile)) return undefined
+  if (process.platform !== 'win32' && (statSync(keyFile).mode & 0o077) !== 0) {
+    throw new KiroStorageKeyError(
+      `Encryption key file ${keyFile} is readable by other users. Run: chmod 600 "${keyFile}"`
+    )
+  }
+  const material = readFileSync(keyFile, 'utf8').trim()
+  if (!material) throw new KiroStorageKeyError(`Encryption key file ${keyFile} is empty`)
+  return deriveKey(material)
+}
+
+function deriveKey(material: string): Buffer {
+  return createHash('sha256').update(material).digest()
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX)
+}
+
+// The IV is derived from the plaintext so equal tokens encrypt equally and the
+// UNIQUE(refresh_token) index keeps deduplicating accounts.
+export function encryptColumn<T extends string | null | undefined>(value: T, key?: Buffer): T {
+  if (!key || !value || isEncrypted(value)) return value
+  const iv = createHmac('sha256', key).update(value).digest().subarray(0, IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+  return `${PREFIX}${Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64')}` as T
+}
+
+export function decryptColumn<T>(value: T, key?: Buffer): T {
+  if (!isEncrypted(value)) return value
+  if (!key) {
+    throw new KiroStorageKeyError(
+      'kiro.db contains encrypted credentials but no encryption key was found. Set KIRO_DB_ENCRYPTION_KEY or restore the key file (KIRO_DB_KEY_FILE, default ~/.config/opencode/kiro.key).'
+    )
+  }
+  const raw = Buffer.from(value.slice(PREFIX.length), 'base64')
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, raw.subarray(0, IV_BYTES))
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+    return Buffer.concat([
+      decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final()
+    ]).toString('utf8') as T
+  } catch {
+    throw new KiroStorageKeyError(
+      'Failed to decrypt credentials in kiro.db: the encryption key does not match the one used to write them.'
+    )
+  }
+}
+
+export function decryptSecretColumns<T extends Record<string, any>>(row: T, key?: Buffer): T {
+  if (!SECRET_COLUMNS.some((c) => isEncrypted(row[c]))) return row
+  const decrypted: Record<string, any> = { ...row }
+  for (const c of SECRET_COLUMNS) decrypted[c] = decryptColumn(row[c], key)
+  return decrypted as T
+}
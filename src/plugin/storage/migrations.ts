@@ -1,11 +1,21 @@
 import type { Database } from 'bun:sqlite'
+import { SECRET_COLUMNS, encryptColumn, isEncrypted } from './encryption'
 
-export function runMigrations(db: Database): void {
+export function runMigrations(db: Database, encryptionKey?: Buffer): void {
   migrateToUniqueRefreshToken(db)
   migrateRealEmailColumn(db)
   migrateUsageTable(db)
   migrateStartUrlColumn(db)
   migrateOidcRegionColumn(db)
+  migrateAvailableModelsTable(db)
+  migrateSessionsTable(db)
+  migrateSessionPinsTable(db)
+  migrateUsageBreakdownTable(db)
+  migrateAccountPoolColumns(db)
+  migrateAccountLeasesTable(db)
+  migrateRefreshClaimColumn(db)
+  migrateAccountControlColumns(db)
+  migrateEncryptSecretColumns(db, encryptionKey)
 }
 
 function migrateToUniqueRefreshToken(db: Database): void {
@@ -146,3 +156,114 @@ function migrateOidcRegionColumn(db: Database): void {
   // Backfill: historically `region` was used for both service + OIDC.
   db.run('UPDATE accounts SET oidc_region = region WHERE oidc_region IS NULL OR oidc_region = \"\"')
 }
+
+function migrateAvailableModelsTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS available_models (
+      scope TEXT NOT NULL, model_id TEXT NOT NULL, model_name TEXT, description TEXT,
+      max_input_tokens INTEGER, max_output_tokens INTEGER, input_types TEXT,
+      fetched_at INTEGER NOT NULL, PRIMARY KEY (scope, model_id)
+    )
+  `)
+}
+
+function migrateSessionsTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      session_key TEXT PRIMARY KEY, conversation_id TEXT NOT NULL, generation INTEGER DEFAULT 0,
+      message_count INTEGER DEFAULT 0, history_hash TEXT, request_count INTEGER DEFAULT 0,
+      input_tokens INTEGER DEFAULT 0, output_tokens INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL, last_used_at INTEGER NOT NULL
+    )
+  `)
+}
+
+function migrateSessionPinsTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS session_pins (
+      session_key TEXT PRIMARY KEY, account_id TEXT NOT NULL, expires_at INTEGER NOT NULL
+    )
+  `)
+}
+
+function migrateUsageBreakdownTable(db: Database): void {
+  const columns = db.prepare('PRAGMA table_info(accounts)').all() as any[]
+  if (!columns.some((c) => c.name === 'quota_reset_at')) {
+    db.run('ALTER TABLE accounts ADD COLUMN quota_reset_at INTEGER')
+  }
+  db.run(`
+    CREATE TABLE IF NOT EXISTS usage_breakdown (
+      account_id TEXT NOT NULL, resource_type TEXT NOT NULL, current_usage REAL DEFAULT 0,
+      usage_limit REAL DEFAULT 0, next_reset_at INTEGER, free_trial_usage REAL,
+      free_trial_limit REAL, free_trial_expires_at INTEGER, updated_at INTEGER NOT NULL,
+      PRIMARY KEY (account_id, resource_type)
+    )
+  `)
+}
+
+function migrateAccountPoolColumns(db: Database): void {
+  const columns = db.prepare('PRAGMA table_info(accounts)').all() as any[]
+  const names = new Set(columns.map((c) => c.name))
+  const needed: Record<string, string> = {
+    label: 'TEXT',
+    priority: 'INTEGER DEFAULT 0',
+    allowed_models: 'TEXT',
+    denied_models: 'TEXT'
+  }
+  for (const [n, d] of Object.entries(needed)) {
+    if (!names.has(n)) db.run(`ALTER TABLE accounts ADD COLUMN ${n} ${d}`)
+  }
+}
+
+function migrateAccountLeasesTable(db: Database): void {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS account_leases (
+      lease_id TEXT PRIMARY KEY, account_id TEXT NOT NULL, pid INTEGER NOT NULL,
+      acquired_at INTEGER NOT NULL, expires_at INTEGER NOT NULL
+    )
+  `)
+  db.run('CREATE INDEX IF NOT EXISTS idx_account_leases_account ON account_leases(account_id)')
+}
+
+function migrateRefreshClaimColumn(db: Database): void {
+  const columns = db.prepare('PRAGMA table_info(accounts)').all() as any[]
+  if (!columns.some((c) => c.name === 'refresh_claimed_until')) {
+    db.run('ALTER TABLE accounts ADD COLUMN refresh_claimed_until INTEGER')
+  }
+}
+
+function migrateAccountControlColumns(db: Database): void {
+  const columns = db.prepare('PRAGMA table_info(accounts)').all() as any[]
+  const names = new Set(columns.map((c) => c.name))
+  for (const n of ['disabled', 'preferred']) {
+    if (!names.has(n)) db.run(`ALTER TABLE accounts ADD COLUMN ${n} INTEGER DEFAULT 0`)
+  }
+}
+
+function migrateEncryptSecretColumns(db: Database, key: Buffer | undefined): void {
+  if (!key) return
+  const rows = db
+    .prepare('SELECT id, refresh_token, access_token, client_secret FROM accounts')
+    .all() as any[]
+  const pending = rows.filter((r) => SECRET_COLUMNS.some((c) => r[c] && !isEncrypted(r[c])))
+  if (!pending.length) return
+
+  db.run('BEGIN TRANSACTION')
+  try {
+    const update = db.prepare(
+      'UPDATE accounts SET refresh_token = ?, access_token = ?, client_secret = ? WHERE id = ?'
+    )
+    for (const r of pending) {
+      update.run(
+        encryptColumn(r.refresh_token, key),
+        encryptColumn(r.access_token, key),
+        encryptColumn(r.client_secret, key),
+        r.id
+      )
+    }
+    db.run('COMMIT')
+  } catch (e) {
+    db.run('ROLLBACK')
+    throw e
+  }
+}
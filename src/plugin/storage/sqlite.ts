@@ -2,7 +2,16 @@ import { Database } from 'bun:sqlite'
 import { existsSync, mkdirSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { join } from 'node:path'
-import type { ManagedAccount } from '../types'
+import type {
+  AccountPoolSettings,
+  AccountState,
+  DiscoveredModel,
+  ManagedAccount,
+  SessionRecord,
+  TokenRefreshClaim,
+  UsageBreakdown
+} from '../types'
+import { decryptSecretColumns, encryptColumn, loadEncryptionKey } from './encryption'
 import { deduplicateAccounts, mergeAccounts, withDatabaseLock } from './locked-operations'
 import { runMigrations } from './migrations'
 
@@ -15,14 +24,28 @@ function getBaseDir(): string {
 
 export const DB_PATH = join(getBaseDir(), 'kiro.db')
 
+const ACCOUNT_UPDATE_COLUMNS = `
+        email=excluded.email, auth_method=excluded.auth_method,
+        region=excluded.region, oidc_region=excluded.oidc_region, client_id=excluded.client_id, client_secret=excluded.client_secret,
+        profile_arn=excluded.profile_arn, start_url=excluded.start_url,
+        access_token=excluded.access_token, expires_at=excluded.expires_at, last_used=excluded.last_used,
+        used_count=excluded.used_count, limit_count=excluded.limit_count,
+        quota_reset_at=COALESCE(excluded.quota_reset_at, accounts.quota_reset_at),
+        last_sync=excluded.last_sync`
+
+const ACCOUNT_STATE_COLUMNS =
+  'id, rate_limit_reset, is_healthy, unhealthy_reason, recovery_time, fail_count, disabled, preferred, label, priority, allowed_models, denied_models'
+
 export class KiroDatabase {
   private db: Database
   private path: string
+  private encryptionKey?: Buffer
 
   constructor(path: string = DB_PATH) {
     this.path = path
     const dir = join(path, '..')
     if (!existsSync(dir)) mkdirSync(dir, { recursive: true })
+    this.encryptionKey = loadEncryptionKey(join(dir, 'kiro.key'))
     this.db = new Database(path)
     this.db.run('PRAGMA busy_timeout = 5000')
     this.init()
@@ -37,14 +60,18 @@ export class KiroDatabase {
         refresh_token TEXT NOT NULL, access_token TEXT NOT NULL, expires_at INTEGER NOT NULL,
         rate_limit_reset INTEGER DEFAULT 0, is_healthy INTEGER DEFAULT 1, unhealthy_reason TEXT,
         recovery_time INTEGER, fail_count INTEGER DEFAULT 0, last_used INTEGER DEFAULT 0,
-        used_count INTEGER DEFAULT 0, limit_count INTEGER DEFAULT 0, last_sync INTEGER DEFAULT 0
+        used_count INTEGER DEFAULT 0, limit_count INTEGER DEFAULT 0, quota_reset_at INTEGER,
+        label TEXT, priority INTEGER DEFAULT 0, allowed_models TEXT, denied_models TEXT,
+        last_sync INTEGER DEFAULT 0
       )
     `)
-    runMigrations(this.db)
+    runMigrations(this.db, this.encryptionKey)
   }
 
   getAccounts(): any[] {
-    return this.db.prepare('SELECT * FROM accounts').all()
+    return (this.db.prepare('SELECT * FROM accounts').all() as any[]).map((row) =>
+      decryptSecretColumns(row, this.encryptionKey)
+    )
   }
 
   private upsertAccountInternal(acc: any) {
@@ -55,17 +82,11 @@ export class KiroDatabase {
         id, email, auth_method, region, oidc_region, client_id, client_secret,
         profile_arn, start_url, refresh_token, access_token, expires_at, rate_limit_reset,
         is_healthy, unhealthy_reason, recovery_time, fail_count, last_used,
-        used_count, limit_count, last_sync
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(refresh_token) DO UPDATE SET
-        id=excluded.id, email=excluded.email, auth_method=excluded.auth_method,
-        region=excluded.region, oidc_region=excluded.oidc_region, client_id=excluded.client_id, client_secret=excluded.client_secret,
-        profile_arn=excluded.profile_arn, start_url=excluded.start_url,
-        access_token=excluded.access_token, expires_at=excluded.expires_at,
-        rate_limit_reset=excluded.rate_limit_reset, is_healthy=excluded.is_healthy,
-        unhealthy_reason=excluded.unhealthy_reason, recovery_time=excluded.recovery_time,
-        fail_count=excluded.fail_count, last_used=excluded.last_used,
-        used_count=excluded.used_count, limit_count=excluded.limit_count, last_sync=excluded.last_sync
+        used_count, limit_count, quota_reset_at, label, priority, allowed_models, denied_models,
+        last_sync
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(refresh_token) DO UPDATE SET id=excluded.id, ${ACCOUNT_UPDATE_COLUMNS}
+      ON CONFLICT(id) DO UPDATE SET refresh_token=excluded.refresh_token, ${ACCOUNT_UPDATE_COLUMNS}
     `
       )
       .run(
@@ -75,11 +96,11 @@ export class KiroDatabase {
         acc.region,
         acc.oidcRegion || null,
         acc.clientId || null,
-        acc.clientSecret || null,
+        encryptColumn(acc.clientSecret || null, this.encryptionKey),
         acc.profileArn || null,
         acc.startUrl || null,
-        acc.refreshToken,
-        acc.accessToken,
+        encryptColumn(acc.refreshToken, this.encryptionKey),
+        encryptColumn(acc.accessToken, this.encryptionKey),
         acc.expiresAt,
         acc.rateLimitResetTime || 0,
         acc.isHealthy ? 1 : 0,
@@ -89,13 +110,18 @@ export class KiroDatabase {
         acc.lastUsed || 0,
         acc.usedCount || 0,
         acc.limitCount || 0,
+        acc.quotaResetAt || null,
+        acc.label || null,
+        acc.priority || 0,
+        acc.allowedModels?.length ? JSON.stringify(acc.allowedModels) : null,
+        acc.deniedModels?.length ? JSON.stringify(acc.deniedModels) : null,
         acc.lastSync || 0
       )
   }
 
   async upsertAccount(acc: ManagedAccount): Promise<void> {
     await withDatabaseLock(this.path, async () => {
-      const existing = this.getAccounts().map(this.rowToAccount)
+      const existing = this.getAccounts().map((row) => this.rowToAccount(row))
       const merged = mergeAccounts(existing, [acc])
       const deduplicated = deduplicateAccounts(merged)
 
@@ -114,8 +140,13 @@ export class KiroDatabase {
 
   async batchUpsertAccounts(accounts: ManagedAccount[]): Promise<void> {
     await withDatabaseLock(this.path, async () => {
-      const existing = this.getAccounts().map(this.rowToAccount)
-      const merged = mergeAccounts(existing, accounts)
+      const existing = this.getAccounts().map((row) => this.rowToAccount(row))
+      // Only refresh stored accounts: a row missing here was removed by another process.
+      const known = new Set(existing.map((a) => a.id))
+      const merged = mergeAccounts(
+        existing,
+        accounts.filter((a) => known.has(a.id))
+      )
       const deduplicated = deduplicateAccounts(merged)
 
       this.db.run('BEGIN TRANSACTION')
@@ -134,10 +165,360 @@ export class KiroDatabase {
   async deleteAccount(id: string): Promise<void> {
     await withDatabaseLock(this.path, async () => {
       this.db.prepare('DELETE FROM accounts WHERE id = ?').run(id)
+      this.db.prepare('DELETE FROM usage_breakdown WHERE account_id = ?').run(id)
+    })
+  }
+
+  getAvailableModels(
+    scope?: string
+  ): { scope: string; fetchedAt: number; model: DiscoveredModel }[] {
+    const rows = (
+      scope
+        ? this.db.prepare('SELECT * FROM available_models WHERE scope = ?').all(scope)
+        : this.db.prepare('SELECT * FROM available_models').all()
+    ) as any[]
+    return rows.map((row) => ({
+      scope: row.scope,
+      fetchedAt: row.fetched_at,
+      model: {
+        modelId: row.model_id,
+        modelName: row.model_name || undefined,
+        description: row.description || undefined,
+        maxInputTokens: row.max_input_tokens || undefined,
+        maxOutputTokens: row.max_output_tokens || undefined,
+        inputTypes: row.input_types ? JSON.parse(row.input_types) : []
+      }
+    }))
+  }
+
+  async replaceAvailableModels(
+    scope: string,
+    models: DiscoveredModel[],
+    fetchedAt: number
+  ): Promise<void> {
+    await withDatabaseLock(this.path, async () => {
+      this.db.run('BEGIN TRANSACTION')
+      try {
+        this.db.prepare('DELETE FROM available_models WHERE scope = ?').run(scope)
+        const insert = this.db.prepare(`
+          INSERT INTO available_models (
+            scope, model_id, model_name, description, max_input_tokens, max_output_tokens,
+            input_types, fetched_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        for (const m of models) {
+          insert.run(
+            scope,
+            m.modelId,
+            m.modelName || null,
+            m.description || null,
+            m.maxInputTokens || null,
+            m.maxOutputTokens || null,
+            JSON.stringify(m.inputTypes),
+            fetchedAt
+          )
+        }
+        this.db.run('COMMIT')
+      } catch (e) {
+        this.db.run('ROLLBACK')
+        throw e
+      }
+    })
+  }
+
+  getSession(sessionKey: string): SessionRecord | null {
+    const row = this.db
+      .prepare('SELECT * FROM sessions WHERE session_key = ?')
+      .get(sessionKey) as any
+    if (!row) return null
+    return {
+      sessionKey: row.session_key,
+      conversationId: row.conversation_id,
+      generation: row.generation || 0,
+      messageCount: row.message_count || 0,
+      historyHash: row.history_hash || '',
+      requestCount: row.request_count || 0,
+      inputTokens: row.input_tokens || 0,
+      outputTokens: row.output_tokens || 0,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at
+    }
+  }
+
+  upsertSession(session: SessionRecord): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO sessions (
+          session_key, conversation_id, generation, message_count, history_hash,
+          request_count, input_tokens, output_tokens, created_at, last_used_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(session_key) DO UPDATE SET
+          conversation_id=excluded.conversation_id, generation=excluded.generation,
+          message_count=excluded.message_count, history_hash=excluded.history_hash,
+          request_count=sessions.request_count + 1, last_used_at=excluded.last_used_at
+      `
+      )
+      .run(
+        session.sessionKey,
+        session.conversationId,
+        session.generation,
+        session.messageCount,
+        session.historyHash,
+        session.requestCount,
+        session.inputTokens,
+        session.outputTokens,
+        session.createdAt,
+        session.lastUsedAt
+      )
+  }
+
+  addSessionUsage(sessionKey: string, inputTokens: number, outputTokens: number): void {
+    this.db
+      .prepare(
+        'UPDATE sessions SET input_tokens = input_tokens + ?, output_tokens = output_tokens + ? WHERE session_key = ?'
+      )
+      .run(inputTokens, outputTokens, sessionKey)
+  }
+
+  pruneSessions(lastUsedBefore: number): void {
+    this.db.prepare('DELETE FROM sessions WHERE last_used_at < ?').run(lastUsedBefore)
+  }
+
+  getAccountStates(): AccountState[] {
+    const rows = this.db.prepare(`SELECT ${ACCOUNT_STATE_COLUMNS} FROM accounts`).all() as any[]
+    return rows.map(rowToAccountState)
+  }
+
+  setAccountRateLimit(id: string, resetAt: number): void {
+    this.db
+      .prepare(
+        'UPDATE accounts SET rate_limit_reset = MAX(COALESCE(rate_limit_reset, 0), ?) WHERE id = ?'
+      )
+      .run(resetAt, id)
+  }
+
+  setAccountState(state: AccountState): void {
+    this.db
+      .prepare(
+        'UPDATE accounts SET is_healthy = ?, unhealthy_reason = ?, recovery_time = ?, fail_count = ? WHERE id = ?'
+      )
+      .run(
+        state.isHealthy ? 1 : 0,
+        state.unhealthyReason || null,
+        state.recoveryTime || null,
+        state.failCount || 0,
+        state.id
+      )
+  }
+
+  setAccountDisabled(id: string, disabled: boolean): void {
+    this.db.prepare('UPDATE accounts SET disabled = ? WHERE id = ?').run(disabled ? 1 : 0, id)
+  }
+
+  setPreferredAccount(id: string | null): void {
+    this.db.prepare('UPDATE accounts SET preferred = CASE WHEN id = ? THEN 1 ELSE 0 END').run(id)
+  }
+
+  setAccountPoolSettings(id: string, settings: AccountPoolSettings): void {
+    this.db
+      .prepare(
+        'UPDATE accounts SET label = ?, priority = ?, allowed_models = ?, denied_models = ? WHERE id = ?'
+      )
+      .run(
+        settings.label || null,
+        settings.priority || 0,
+        settings.allowedModels?.length ? JSON.stringify(settings.allowedModels) : null,
+        settings.deniedModels?.length ? JSON.stringify(settings.deniedModels) : null,
+        id
+      )
+  }
+
+  resetAccountHealth(id: string): void {
+    this.db
+      .prepare(
+        'UPDATE accounts SET is_healthy = 1, unhealthy_reason = NULL, recovery_time = NULL, fail_count = 0, rate_limit_reset = 0 WHERE id = ?'
+      )
+      .run(id)
+  }
+
+  recordAccountFailure(id: string, reason: string, recoveryTime: number): AccountState | null {
+    const row = this.db
+      .prepare(
+        `
+      UPDATE accounts SET
+        fail_count = fail_count + 1, unhealthy_reason = ?, last_used = ?,
+        is_healthy = CASE WHEN fail_count + 1 >= 10 THEN 0 ELSE is_healthy END,
+        recovery_time = CASE WHEN fail_count + 1 >= 10 THEN ? ELSE recovery_time END
+      WHERE id = ?
+      RETURNING ${ACCOUNT_STATE_COLUMNS}
+    `
+      )
+      .get(reason, Date.now(), recoveryTime, id) as any
+    return row ? rowToAccountState(row) : null
+  }
+
+  async claimTokenRefresh(
+    id: string,
+    refreshBefore: number,
+    claimUntil: number
+  ): Promise<TokenRefreshClaim> {
+    return withDatabaseLock(this.path, async () => {
+      const row = this.db.prepare('SELECT * FROM accounts WHERE id = ?').get(id) as any
+      if (!row) return { status: 'missing' }
+      if (row.expires_at > refreshBefore)
+        return { status: 'fresh', account: this.rowToAccount(row) }
+      if ((row.refresh_claimed_until || 0) > Date.now()) return { status: 'busy' }
+      this.db
+        .prepare('UPDATE accounts SET refresh_claimed_until = ? WHERE id = ?')
+        .run(claimUntil, id)
+      return { status: 'claimed', account: this.rowToAccount(row) }
     })
   }
 
-  private rowToAccount(row: any): ManagedAccount {
+  storeRefreshedTokens(
+    id: string,
+    tokens: { accessToken: string; refreshToken: string; expiresAt: number }
+  ): void {
+    this.db
+      .prepare(
+        'UPDATE accounts SET access_token = ?, refresh_token = ?, expires_at = ? WHERE id = ?'
+      )
+      .run(
+        encryptColumn(tokens.accessToken, this.encryptionKey),
+        encryptColumn(tokens.refreshToken, this.encryptionKey),
+        tokens.expiresAt,
+        id
+      )
+  }
+
+  getAccountById(id: string): ManagedAccount | null {
+    const row = this.db.prepare('SELECT * FROM accounts WHERE id = ?').get(id)
+    return row ? this.rowToAccount(row) : null
+  }
+
+  releaseTokenRefreshClaim(id: string): void {
+    this.db.prepare('UPDATE accounts SET refresh_claimed_until = NULL WHERE id = ?').run(id)
+  }
+
+  countAccountLeases(accountId: string, now: number = Date.now()): number {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS n FROM account_leases WHERE account_id = ? AND expires_at > ?')
+      .get(accountId, now) as any
+    return row?.n || 0
+  }
+
+  tryAcquireAccountLease(
+    leaseId: string,
+    accountId: string,
+    maxLeases: number,
+    expiresAt: number
+  ): boolean {
+    const now = Date.now()
+    this.db.run('BEGIN IMMEDIATE')
+    try {
+      this.db.prepare('DELETE FROM account_leases WHERE expires_at <= ?').run(now)
+      if (this.countAccountLeases(accountId, now) >= maxLeases) {
+        this.db.run('COMMIT')
+        return false
+      }
+      this.db
+        .prepare(
+          'INSERT INTO account_leases (lease_id, account_id, pid, acquired_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+        )
+        .run(leaseId, accountId, process.pid, now, expiresAt)
+      this.db.run('COMMIT')
+      return true
+    } catch (e) {
+      this.db.run('ROLLBACK')
+      throw e
+    }
+  }
+
+  releaseAccountLease(leaseId: string): void {
+    this.db.prepare('DELETE FROM account_leases WHERE lease_id = ?').run(leaseId)
+  }
+
+  renewProcessLeases(expiresAt: number, pid: number = process.pid): void {
+    this.db.prepare('UPDATE account_leases SET expires_at = ? WHERE pid = ?').run(expiresAt, pid)
+  }
+
+  releaseProcessLeases(pid: number = process.pid): void {
+    this.db.prepare('DELETE FROM account_leases WHERE pid = ?').run(pid)
+  }
+
+  getUsageBreakdown(accountId: string): UsageBreakdown[] {
+    const rows = this.db
+      .prepare('SELECT * FROM usage_breakdown WHERE account_id = ? ORDER BY resource_type')
+      .all(accountId) as any[]
+    return rows.map((r) => ({
+      resourceType: r.resource_type,
+      currentUsage: r.current_usage || 0,
+      usageLimit: r.usage_limit || 0,
+      nextResetAt: r.next_reset_at || undefined,
+      freeTrialUsage: r.free_trial_usage ?? undefined,
+      freeTrialLimit: r.free_trial_limit ?? undefined,
+      freeTrialExpiresAt: r.free_trial_expires_at || undefined
+    }))
+  }
+
+  async replaceUsageBreakdown(accountId: string, breakdown: UsageBreakdown[]): Promise<void> {
+    await withDatabaseLock(this.path, async () => {
+      this.db.run('BEGIN TRANSACTION')
+      try {
+        this.db.prepare('DELETE FROM usage_breakdown WHERE account_id = ?').run(accountId)
+        const insert = this.db.prepare(`
+          INSERT OR REPLACE INTO usage_breakdown (
+            account_id, resource_type, current_usage, usage_limit, next_reset_at,
+            free_trial_usage, free_trial_limit, free_trial_expires_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        const now = Date.now()
+        for (const b of breakdown) {
+          insert.run(
+            accountId,
+            b.resourceType,
+            b.currentUsage,
+            b.usageLimit,
+            b.nextResetAt || null,
+            b.freeTrialUsage ?? null,
+            b.freeTrialLimit ?? null,
+            b.freeTrialExpiresAt || null,
+            now
+          )
+        }
+        this.db.run('COMMIT')
+      } catch (e) {
+        this.db.run('ROLLBACK')
+        throw e
+      }
+    })
+  }
+
+  getSessionPin(sessionKey: string, now: number = Date.now()): string | null {
+    const row = this.db
+      .prepare('SELECT account_id FROM session_pins WHERE session_key = ? AND expires_at > ?')
+      .get(sessionKey, now) as any
+    return row?.account_id || null
+  }
+
+  async setSessionPin(sessionKey: string, accountId: string, expiresAt: number): Promise<void> {
+    await withDatabaseLock(this.path, async () => {
+      this.db.prepare('DELETE FROM session_pins WHERE expires_at <= ?').run(Date.now())
+      this.db
+        .prepare(
+          `
+        INSERT INTO session_pins (session_key, account_id, expires_at) VALUES (?, ?, ?)
+        ON CONFLICT(session_key) DO UPDATE SET
+          account_id=excluded.account_id, expires_at=excluded.expires_at
+      `
+        )
+        .run(sessionKey, accountId, expiresAt)
+    })
+  }
+
+  private rowToAccount(raw: any): ManagedAccount {
+    const row = decryptSecretColumns(raw, this.encryptionKey)
     return {
       id: row.id,
       email: row.email,
@@ -159,6 +540,13 @@ export class KiroDatabase {
       lastUsed: row.last_used,
       usedCount: row.used_count,
       limitCount: row.limit_count,
+      quotaResetAt: row.quota_reset_at || undefined,
+      label: row.label || undefined,
+      priority: row.priority || 0,
+      allowedModels: parseModelList(row.allowed_models),
+      deniedModels: parseModelList(row.denied_models),
+      disabled: row.disabled === 1,
+      preferred: row.preferred === 1,
       lastSync: row.last_sync
     }
   }
@@ -168,6 +556,33 @@ export class KiroDatabase {
   }
 }
 
+function rowToAccountState(row: any): AccountState {
+  return {
+    id: row.id,
+    rateLimitResetTime: row.rate_limit_reset || 0,
+    isHealthy: row.is_healthy === 1,
+    unhealthyReason: row.unhealthy_reason || undefined,
+    recoveryTime: row.recovery_time || undefined,
+    failCount: row.fail_count || 0,
+    disabled: row.disabled === 1,
+    preferred: row.preferred === 1,
+    label: row.label || undefined,
+    priority: row.priority || 0,
+    allowedModels: parseModelList(row.allowed_models),
+    deniedModels: parseModelList(row.denied_models)
+  }
+}
+
+export function parseModelList(value: unknown): string[] | undefined {
+  if (typeof value !== 'string' || !value) return undefined
+  try {
+    const list = JSON.parse(value)
+    return Array.isArray(list) ? list.filter((m) => typeof m === 'string') : undefined
+  } catch {
+    return undefined
+  }
+}
+
 export function createDatabase(path?: string): KiroDatabase {
   return new KiroDatabase(path)
 }
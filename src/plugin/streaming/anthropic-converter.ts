@@ -0,0 +1,58 @@
+import { KiroQuotaExhaustedError, KiroRateLimitError, KiroValidationError } from '../errors.js'
+import { StreamEvent } from './types.js'
+
+export function formatAnthropicSSE(event: StreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+export function convertErrorToAnthropic(error: Error): {
+  type: 'error'
+  error: { type: string; message: string }
+} {
+  let type = 'api_error'
+  if (error instanceof KiroRateLimitError) type = 'rate_limit_error'
+  else if (error instanceof KiroQuotaExhaustedError) type = 'billing_error'
+  else if (error instanceof KiroValidationError) type = 'invalid_request_error'
+  return { type: 'error', error: { type, message: error.message } }
+}
+
+export async function collectAnthropicMessage(events: AsyncIterable<StreamEvent>): Promise<any> {
+  let message: any = null
+  const blocks: any[] = []
+  const toolInputs = new Map<number, string>()
+
+  for await (const event of events) {
+    if (event.type === 'message_start') {
+      message = { ...event.message }
+    } else if (event.type === 'content_block_start' && event.index != null) {
+      blocks[event.index] = { ...event.content_block }
+      if (event.content_block?.type === 'tool_use') toolInputs.set(event.index, '')
+    } else if (event.type === 'content_block_delta' && event.index != null) {
+      const block = blocks[event.index]
+      if (!block) continue
+      if (event.delta.type === 'text_delta') block.text += event.delta.text
+      else if (event.delta.type === 'thinking_delta') block.thinking += event.delta.thinking
+      else if (event.delta.type === 'input_json_delta')
+        toolInputs.set(event.index, (toolInputs.get(event.index) || '') + event.delta.partial_json)
+    } else if (event.type === 'message_delta') {
+      message = { ...message, ...event.delta, usage: event.usage }
+    }
+  }
+
+  for (const [index, raw] of toolInputs) {
+    const block = blocks[index]
+    if (!block) continue
+    try {
+      block.input = raw.trim() ? JSON.parse(raw) : {}
+    } catch {
+      block.input = { raw }
+    }
+  }
+
+  return {
+    ...message,
+    content: blocks
+      .filter(Boolean)
+      .map((b) => (b.type === 'thinking' ? { ...b, signature: b.signature || '' } : b))
+  }
+}
@@ -1,2 +1,14 @@
+export {
+  collectAnthropicMessage,
+  convertErrorToAnthropic,
+  formatAnthropicSSE
+} from './anthropic-converter.js'
+export {
+  convertErrorToOpenAI,
+  convertMessageToOpenAI,
+  convertToOpenAI,
+  errorStatusCode,
+  isKiroStreamError
+} from './openai-converter.js'
 export { findRealTag } from './stream-parser.js'
 export { transformKiroStream } from './stream-transformer.js'
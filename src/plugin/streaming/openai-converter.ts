@@ -1,3 +1,9 @@
+import {
+  KiroQuotaExhaustedError,
+  KiroRateLimitError,
+  KiroStreamError,
+  KiroValidationError
+} from '../errors.js'
 import { StreamEvent } from './types.js'
 
 export function convertToOpenAI(event: StreamEvent, id: string, model: string): any {
@@ -9,7 +15,13 @@ export function convertToOpenAI(event: StreamEvent, id: string, model: string):
     choices: [] as any[]
   }
 
-  if (event.type === 'content_block_delta') {
+  if (event.type === 'message_start') {
+    base.choices.push({
+      index: 0,
+      delta: { role: 'assistant', content: '' },
+      finish_reason: null
+    })
+  } else if (event.type === 'content_block_delta') {
     if (event.delta.type === 'text_delta') {
       base.choices.push({
         index: 0,
@@ -57,12 +69,86 @@ export function convertToOpenAI(event: StreamEvent, id: string, model: string):
       delta: {},
       finish_reason: event.delta.stop_reason === 'tool_use' ? 'tool_calls' : 'stop'
     })
-    ;(base as any).usage = {
-      prompt_tokens: event.usage?.input_tokens || 0,
-      completion_tokens: event.usage?.output_tokens || 0,
-      total_tokens: (event.usage?.input_tokens || 0) + (event.usage?.output_tokens || 0)
-    }
+    ;(base as any).usage = convertUsageToOpenAI(event.usage)
   }
 
   return base
 }
+
+export function convertErrorToOpenAI(error: Error): { error: Record<string, unknown> } {
+  const e = error as any
+  return {
+    error: {
+      message: error.message,
+      type: error.name,
+      code: e.exceptionType || e.field || null
+    }
+  }
+}
+
+export function errorStatusCode(error: Error): number {
+  if (error instanceof KiroRateLimitError) return 429
+  if (error instanceof KiroQuotaExhaustedError) return 402
+  if (error instanceof KiroValidationError) return 400
+  return 502
+}
+
+export function isKiroStreamError(error: unknown): error is Error {
+  return (
+    error instanceof KiroRateLimitError ||
+    error instanceof KiroQuotaExhaustedError ||
+    error instanceof KiroValidationError ||
+    error instanceof KiroStreamError
+  )
+}
+
+export function convertMessageToOpenAI(message: any, id: string, model: string): any {
+  const blocks: any[] = message.content || []
+  const text = blocks
+    .filter((b) => b.type === 'text')
+    .map((b) => b.text)
+    .join('')
+  const reasoning = blocks
+    .filter((b) => b.type === 'thinking')
+    .map((b) => b.thinking)
+    .join('')
+  const toolCalls = blocks
+    .filter((b) => b.type === 'tool_use')
+    .map((b) => ({
+      id: b.id,
+      type: 'function',
+      function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) }
+    }))
+
+  const msg: any = { role: 'assistant', content: text || (toolCalls.length > 0 ? null : '') }
+  if (reasoning) msg.reasoning_content = reasoning
+  if (toolCalls.length > 0) msg.tool_calls = toolCalls
+
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: msg,
+        finish_reason: message.stop_reason === 'tool_use' ? 'tool_calls' : 'stop'
+      }
+    ],
+    usage: convertUsageToOpenAI(message.usage)
+  }
+}
+
+function convertUsageToOpenAI(usage: any) {
+  const cached = usage?.cache_read_input_tokens || 0
+  const promptTokens =
+    (usage?.input_tokens || 0) + cached + (usage?.cache_creation_input_tokens || 0)
+  const completionTokens = usage?.output_tokens || 0
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    prompt_tokens_details: { cached_tokens: cached }
+  }
+}
@@ -1,4 +1,5 @@
-import { StreamEvent, StreamState } from './types.js'
+import { matchBracketToolCall } from '../../infrastructure/transformers/tool-call-parser.js'
+import { StreamEvent, StreamState, ToolCallState } from './types.js'
 
 export function ensureBlockStart(
   blockType: 'thinking' | 'text',
@@ -38,7 +39,37 @@ export function stopBlock(index: number | null, streamState: StreamState): Strea
   return [{ type: 'content_block_stop', index }]
 }
 
+// Kiro sometimes writes tool calls into the text as `[Called name with args: {...}]`. Those
+// spans are held back until complete, then turned into tool_use blocks instead of text.
 export function createTextDeltaEvents(text: string, streamState: StreamState): StreamEvent[] {
+  let rest = streamState.pendingText + text
+  let out = ''
+  streamState.pendingText = ''
+  while (rest) {
+    const start = rest.indexOf('[')
+    if (start === -1) {
+      out += rest
+      break
+    }
+    out += rest.slice(0, start)
+    rest = rest.slice(start)
+    const match = matchBracketToolCall(rest)
+    if (match === 'incomplete') {
+      streamState.pendingText = rest
+      break
+    }
+    if (match) {
+      streamState.bracketToolCalls.push(match.toolCall)
+      rest = rest.slice(match.length)
+    } else {
+      out += '['
+      rest = rest.slice(1)
+    }
+  }
+  return createRawTextDeltaEvents(out, streamState)
+}
+
+function createRawTextDeltaEvents(text: string, streamState: StreamState): StreamEvent[] {
   if (!text) return []
   const events: StreamEvent[] = []
   events.push(...ensureBlockStart('text', streamState))
@@ -63,3 +94,52 @@ export function createThinkingDeltaEvents(
   })
   return events
 }
+
+export function flushBuffer(streamState: StreamState): StreamEvent[] {
+  const events: StreamEvent[] = []
+  if (streamState.buffer && streamState.inThinking) {
+    events.push(...createThinkingDeltaEvents(streamState.buffer, streamState))
+    events.push(...createThinkingDeltaEvents('', streamState))
+    events.push(...stopBlock(streamState.thinkingBlockIndex, streamState))
+  } else if (streamState.buffer) {
+    events.push(...createTextDeltaEvents(streamState.buffer, streamState))
+  }
+  streamState.buffer = ''
+  events.push(...createRawTextDeltaEvents(streamState.pendingText, streamState))
+  streamState.pendingText = ''
+  return events
+}
+
+export function closeContentBlocks(streamState: StreamState): StreamEvent[] {
+  const events = flushBuffer(streamState)
+  if (streamState.inThinking) {
+    events.push(...stopBlock(streamState.thinkingBlockIndex, streamState))
+    streamState.inThinking = false
+    streamState.thinkingExtracted = true
+  }
+  events.push(...stopBlock(streamState.textBlockIndex, streamState))
+  streamState.textBlockIndex = null
+  return events
+}
+
+export function createToolUseStartEvent(toolCall: ToolCallState): StreamEvent {
+  return {
+    type: 'content_block_start',
+    index: toolCall.blockIndex,
+    content_block: { type: 'tool_use', id: toolCall.toolUseId, name: toolCall.name, input: {} }
+  }
+}
+
+export function createToolInputDeltaEvents(
+  toolCall: ToolCallState,
+  partialJson: string
+): StreamEvent[] {
+  if (!partialJson) return []
+  return [
+    {
+      type: 'content_block_delta',
+      index: toolCall.blockIndex,
+      delta: { type: 'input_json_delta', partial_json: partialJson }
+    }
+  ]
+}
@@ -1,15 +1,31 @@
-import { parseBracketToolCalls } from '../../infrastructure/transformers/tool-call-parser.js'
+import { KiroEventStreamParser } from '../../infrastructure/transformers/event-stream-parser.js'
+import { errorFromStreamException } from '../errors.js'
+import { getModelContextWindow } from '../models.js'
 import { estimateTokens } from '../response.js'
-import { convertToOpenAI } from './openai-converter.js'
-import { findRealTag, parseStreamBuffer } from './stream-parser.js'
-import { createTextDeltaEvents, createThinkingDeltaEvents, stopBlock } from './stream-state.js'
-import { StreamState, THINKING_END_TAG, THINKING_START_TAG, ToolCallState } from './types.js'
+import type { KiroStreamEvent } from '../types.js'
+import { findRealTag } from './stream-parser.js'
+import {
+  closeContentBlocks,
+  createTextDeltaEvents,
+  createThinkingDeltaEvents,
+  createToolInputDeltaEvents,
+  createToolUseStartEvent,
+  flushBuffer,
+  stopBlock
+} from './stream-state.js'
+import {
+  StreamEvent,
+  StreamState,
+  THINKING_END_TAG,
+  THINKING_START_TAG,
+  ToolCallState
+} from './types.js'
 
 export async function* transformKiroStream(
   response: Response,
   model: string,
   conversationId: string
-): AsyncGenerator<any> {
+): AsyncGenerator<StreamEvent> {
   const thinkingRequested = true
 
   const streamState: StreamState = {
@@ -20,7 +36,9 @@ export async function* transformKiroStream(
     thinkingBlockIndex: null,
     textBlockIndex: null,
     nextBlockIndex: 0,
-    stoppedBlocks: new Set()
+    stoppedBlocks: new Set(),
+    pendingText: '',
+    bracketToolCalls: []
   }
 
   if (!response.body) {
@@ -28,41 +46,51 @@ export async function* transformKiroStream(
   }
 
   const reader = response.body.getReader()
-  const decoder = new TextDecoder()
+  const parser = new KiroEventStreamParser()
 
-  let rawBuffer = ''
   let totalContent = ''
   let outputTokens = 0
   let inputTokens = 0
   let contextUsagePercentage: number | null = null
+  const reportedUsage: Partial<Extract<KiroStreamEvent, { type: 'usage' }>> = {}
   const toolCalls: ToolCallState[] = []
   let currentToolCall: ToolCallState | null = null
 
   try {
+    yield {
+      type: 'message_start',
+      message: {
+        id: conversationId,
+        type: 'message',
+        role: 'assistant',
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 }
+      }
+    }
+
     while (true) {
       const { done, value } = await reader.read()
       if (done) break
 
-      const chunk = decoder.decode(value, { stream: true })
-      rawBuffer += chunk
-
-      const events = parseStreamBuffer(rawBuffer)
-      rawBuffer = events.remaining
-
-      for (const event of events.events) {
-        if (event.type === 'contextUsage' && event.data.contextUsagePercentage) {
-          contextUsagePercentage = event.data.contextUsagePercentage
-        } else if (event.type === 'content' && event.data) {
-          totalContent += event.data
+      for (const event of parser.push(value)) {
+        if (event.type === 'contextUsage' && event.contextUsagePercentage) {
+          contextUsagePercentage = event.contextUsagePercentage
+        } else if (event.type === 'usage') {
+          Object.assign(reportedUsage, definedFields(event))
+        } else if (event.type === 'assistantResponse' && event.content) {
+          totalContent += event.content
 
           if (!thinkingRequested) {
-            for (const ev of createTextDeltaEvents(event.data, streamState)) {
-              yield convertToOpenAI(ev, conversationId, model)
+            for (const ev of createTextDeltaEvents(event.content, streamState)) {
+              yield ev
             }
             continue
           }
 
-          streamState.buffer += event.data
+          streamState.buffer += event.content
           const deltaEvents: any[] = []
 
           while (streamState.buffer.length > 0) {
@@ -133,163 +161,102 @@ export async function* transformKiroStream(
           }
 
           for (const ev of deltaEvents) {
-            yield convertToOpenAI(ev, conversationId, model)
+            yield ev
           }
         } else if (event.type === 'toolUse') {
-          const tc = event.data
-          if (tc.name) {
-            totalContent += tc.name
-          }
-          if (tc.input) {
-            totalContent += tc.input
-          }
-
-          if (tc.name && tc.toolUseId) {
-            if (currentToolCall && currentToolCall.toolUseId === tc.toolUseId) {
-              currentToolCall.input += tc.input || ''
-            } else {
-              if (currentToolCall) {
-                toolCalls.push(currentToolCall)
-              }
-              currentToolCall = {
-                toolUseId: tc.toolUseId,
-                name: tc.name,
-                input: tc.input || ''
-              }
-            }
-
-            if (tc.stop && currentToolCall) {
+          totalContent += event.input
+          if (event.toolUseId && toolCalls.some((tc) => tc.toolUseId === event.toolUseId)) continue
+
+          if (
+            event.toolUseId &&
+            event.name &&
+            (!currentToolCall || currentToolCall.toolUseId !== event.toolUseId)
+          ) {
+            if (currentToolCall) {
+              for (const ev of stopBlock(currentToolCall.blockIndex, streamState)) yield ev
               toolCalls.push(currentToolCall)
-              currentToolCall = null
             }
+            totalContent += event.name
+            for (const ev of closeContentBlocks(streamState)) yield ev
+            currentToolCall = {
+              toolUseId: event.toolUseId,
+              name: event.name,
+              input: '',
+              blockIndex: streamState.nextBlockIndex++
+            }
+            yield createToolUseStartEvent(currentToolCall)
           }
-        } else if (event.type === 'toolUseInput') {
-          if (event.data.input) {
-            totalContent += event.data.input
-          }
-          if (currentToolCall) {
-            currentToolCall.input += event.data.input || ''
-          }
-        } else if (event.type === 'toolUseStop') {
-          if (currentToolCall && event.data.stop) {
+          if (!currentToolCall) continue
+
+          currentToolCall.input += event.input
+          for (const ev of createToolInputDeltaEvents(currentToolCall, event.input)) yield ev
+
+          if (event.stop) {
+            for (const ev of stopBlock(currentToolCall.blockIndex, streamState)) yield ev
             toolCalls.push(currentToolCall)
             currentToolCall = null
           }
+        } else if (event.type === 'exception') {
+          for (const ev of flushBuffer(streamState)) yield ev
+          throw errorFromStreamException(event.exceptionType, event.message)
         }
       }
     }
 
+    parser.finish()
+
     if (currentToolCall) {
+      for (const ev of stopBlock(currentToolCall.blockIndex, streamState)) yield ev
       toolCalls.push(currentToolCall)
       currentToolCall = null
     }
 
-    if (thinkingRequested && streamState.buffer) {
-      if (streamState.inThinking) {
-        for (const ev of createThinkingDeltaEvents(streamState.buffer, streamState))
-          yield convertToOpenAI(ev, conversationId, model)
-        streamState.buffer = ''
-        for (const ev of createThinkingDeltaEvents('', streamState))
-          yield convertToOpenAI(ev, conversationId, model)
-        for (const ev of stopBlock(streamState.thinkingBlockIndex, streamState))
-          yield convertToOpenAI(ev, conversationId, model)
-      } else {
-        for (const ev of createTextDeltaEvents(streamState.buffer, streamState))
-          yield convertToOpenAI(ev, conversationId, model)
-        streamState.buffer = ''
-      }
+    if (thinkingRequested) {
+      for (const ev of flushBuffer(streamState)) yield ev
     }
 
-    for (const ev of stopBlock(streamState.textBlockIndex, streamState))
-      yield convertToOpenAI(ev, conversationId, model)
-
-    const bracketToolCalls = parseBracketToolCalls(totalContent)
-    if (bracketToolCalls.length > 0) {
-      for (const btc of bracketToolCalls) {
-        toolCalls.push({
-          toolUseId: btc.toolUseId,
-          name: btc.name,
-          input: typeof btc.input === 'string' ? btc.input : JSON.stringify(btc.input)
-        })
-      }
-    }
+    for (const ev of stopBlock(streamState.textBlockIndex, streamState)) yield ev
 
-    if (toolCalls.length > 0) {
-      const baseIndex = streamState.nextBlockIndex
-      for (let i = 0; i < toolCalls.length; i++) {
-        const tc = toolCalls[i]
-        if (!tc) continue
-
-        const blockIndex = baseIndex + i
-
-        yield convertToOpenAI(
-          {
-            type: 'content_block_start',
-            index: blockIndex,
-            content_block: {
-              type: 'tool_use',
-              id: tc.toolUseId,
-              name: tc.name,
-              input: {}
-            }
-          },
-          conversationId,
-          model
-        )
-
-        let inputJson: string
-        try {
-          const parsed = JSON.parse(tc.input)
-          inputJson = JSON.stringify(parsed)
-        } catch (e) {
-          inputJson = tc.input
-        }
-
-        yield convertToOpenAI(
-          {
-            type: 'content_block_delta',
-            index: blockIndex,
-            delta: {
-              type: 'input_json_delta',
-              partial_json: inputJson
-            }
-          },
-          conversationId,
-          model
-        )
-
-        yield convertToOpenAI(
-          { type: 'content_block_stop', index: blockIndex },
-          conversationId,
-          model
-        )
+    for (const btc of streamState.bracketToolCalls) {
+      if (toolCalls.some((tc) => tc.toolUseId === btc.toolUseId)) continue
+      const tc: ToolCallState = {
+        toolUseId: btc.toolUseId,
+        name: btc.name,
+        input: typeof btc.input === 'string' ? btc.input : JSON.stringify(btc.input),
+        blockIndex: streamState.nextBlockIndex++
       }
+      yield createToolUseStartEvent(tc)
+      for (const ev of createToolInputDeltaEvents(tc, tc.input)) yield ev
+      for (const ev of stopBlock(tc.blockIndex, streamState)) yield ev
+      toolCalls.push(tc)
     }
 
-    outputTokens = estimateTokens(totalContent)
+    outputTokens = reportedUsage.outputTokens ?? estimateTokens(totalContent, model)
 
-    if (contextUsagePercentage !== null && contextUsagePercentage > 0) {
-      const totalTokens = Math.round((200000 * contextUsagePercentage) / 100)
+    if (reportedUsage.inputTokens !== undefined) {
+      inputTokens = reportedUsage.inputTokens
+    } else if (contextUsagePercentage !== null && contextUsagePercentage > 0) {
+      const totalTokens = Math.round((getModelContextWindow(model) * contextUsagePercentage) / 100)
       inputTokens = Math.max(0, totalTokens - outputTokens)
     }
 
-    yield convertToOpenAI(
-      {
-        type: 'message_delta',
-        delta: { stop_reason: toolCalls.length > 0 ? 'tool_use' : 'end_turn' },
-        usage: {
-          input_tokens: inputTokens,
-          output_tokens: outputTokens,
-          cache_creation_input_tokens: 0,
-          cache_read_input_tokens: 0
-        }
-      },
-      conversationId,
-      model
-    )
+    yield {
+      type: 'message_delta',
+      delta: { stop_reason: toolCalls.length > 0 ? 'tool_use' : 'end_turn' },
+      usage: {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        cache_creation_input_tokens: reportedUsage.cacheWriteInputTokens ?? 0,
+        cache_read_input_tokens: reportedUsage.cacheReadInputTokens ?? 0
+      }
+    }
 
-    yield convertToOpenAI({ type: 'message_stop' }, conversationId, model)
+    yield { type: 'message_stop' }
   } finally {
     reader.releaseLock()
   }
 }
+
+function definedFields<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>
+}
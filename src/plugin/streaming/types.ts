@@ -1,3 +1,5 @@
+import type { ToolCall } from '../types.js'
+
 export interface StreamEvent {
   type: string
   message?: any
@@ -16,12 +18,15 @@ export interface StreamState {
   textBlockIndex: number | null
   nextBlockIndex: number
   stoppedBlocks: Set<number>
+  pendingText: string
+  bracketToolCalls: ToolCall[]
 }
 
 export interface ToolCallState {
   toolUseId: string
   name: string
   input: string
+  blockIndex: number
 }
 
 export const THINKING_START_TAG = '<thinking>'
@@ -171,6 +171,14 @@ export async function syncFromKiroCli() {
                 limitCount: placeholderRow.limit_count || 0,
                 lastSync: Date.now()
               })
+              kiroDb.setAccountState({
+                id: placeholderId,
+                isHealthy: false,
+                failCount: 10,
+                unhealthyReason: 'Replaced by real email',
+                recoveryTime: Date.now() + 31536000000,
+                rateLimitResetTime: 0
+              })
             }
           }
         }
@@ -195,6 +203,7 @@ export async function syncFromKiroCli() {
           limitCount,
           lastSync: Date.now()
         })
+        kiroDb.setAccountState({ id, isHealthy: true, failCount: 0, rateLimitResetTime: 0 })
       }
     }
     cliDb.close()
@@ -1,6 +1,88 @@
 import { decodeRefreshToken, encodeRefreshToken } from '../kiro/auth'
+import { toAuthDetails } from './accounts'
 import { KiroTokenRefreshError } from './errors'
-import type { KiroAuthDetails, RefreshParts } from './types'
+import { isPermanentRefreshError } from './health'
+import * as logger from './logger'
+import { kiroDb } from './storage/sqlite'
+import type { KiroAuthDetails, ManagedAccount, RefreshParts } from './types'
+
+const REFRESH_CLAIM_TTL_MS = 60000
+const REFRESH_CLAIM_POLL_MS = 500
+
+const refreshesInFlight = new Map<string, Promise<KiroAuthDetails | null>>()
+
+export function refreshAccountToken(
+  account: ManagedAccount,
+  refreshBefore: number,
+  wait = true
+): Promise<KiroAuthDetails | null> {
+  const pending = refreshesInFlight.get(account.id)
+  if (pending) {
+    // A no-wait refresh resolves to null when another process holds the claim.
+    return wait
+      ? pending.then((auth) => auth ?? refreshAccountToken(account, refreshBefore, true))
+      : pending
+  }
+  const refresh = refreshWithClaim(account, refreshBefore, wait).finally(() =>
+    refreshesInFlight.delete(account.id)
+  )
+  refreshesInFlight.set(account.id, refresh)
+  return refresh
+}
+
+async function refreshWithClaim(
+  account: ManagedAccount,
+  refreshBefore: number,
+  wait: boolean
+): Promise<KiroAuthDetails | null> {
+  const deadline = Date.now() + REFRESH_CLAIM_TTL_MS
+  while (true) {
+    const claim = await kiroDb.claimTokenRefresh(
+      account.id,
+      refreshBefore,
+      Date.now() + REFRESH_CLAIM_TTL_MS
+    )
+    if (claim.status === 'missing') return refreshAccessToken(toAuthDetails(account))
+    if (claim.status === 'fresh') return toAuthDetails(claim.account!)
+    if (claim.status === 'claimed') {
+      try {
+        return await refreshStored(claim.account!)
+      } finally {
+        kiroDb.releaseTokenRefreshClaim(account.id)
+      }
+    }
+    if (!wait) return null
+    if (Date.now() >= deadline) {
+      throw new KiroTokenRefreshError(
+        'Timed out waiting for another process to refresh the token',
+        'REFRESH_LOCK_TIMEOUT'
+      )
+    }
+    await new Promise((r) => setTimeout(r, REFRESH_CLAIM_POLL_MS))
+  }
+}
+
+async function refreshStored(stored: ManagedAccount): Promise<KiroAuthDetails> {
+  let auth: KiroAuthDetails
+  try {
+    auth = await refreshAccessToken(toAuthDetails(stored))
+  } catch (e) {
+    const latest = kiroDb.getAccountById(stored.id)
+    if (!isPermanentRefreshError(e) || !latest || latest.refreshToken === stored.refreshToken) {
+      throw e
+    }
+    logger.log('Refresh token was rotated elsewhere; retrying with the stored one', {
+      email: stored.email
+    })
+    auth = await refreshAccessToken(toAuthDetails(latest))
+  }
+  kiroDb.storeRefreshedTokens(stored.id, {
+    accessToken: auth.access,
+    refreshToken: decodeRefreshToken(auth.refresh).refreshToken,
+    expiresAt: auth.expires
+  })
+  return auth
+}
 
 export async function refreshAccessToken(auth: KiroAuthDetails): Promise<KiroAuthDetails> {
   const p = decodeRefreshToken(auth.refresh)
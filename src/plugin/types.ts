@@ -17,6 +17,41 @@ export interface KiroAuthDetails {
   profileArn?: string
 }
 
+export type ModelInputModality = 'text' | 'image' | 'pdf'
+
+export interface KiroModelInfo {
+  kiroModelId: string
+  name: string
+  contextWindow: number
+  maxOutput: number
+  thinking: 'none' | 'optional' | 'always'
+  input: ModelInputModality[]
+  toolCalling: boolean
+  charsPerToken: number
+}
+
+export interface DiscoveredModel {
+  modelId: string
+  modelName?: string
+  description?: string
+  maxInputTokens?: number
+  maxOutputTokens?: number
+  inputTypes: string[]
+}
+
+export interface SessionRecord {
+  sessionKey: string
+  conversationId: string
+  generation: number
+  messageCount: number
+  historyHash: string
+  requestCount: number
+  inputTokens: number
+  outputTokens: number
+  createdAt: number
+  lastUsedAt: number
+}
+
 export interface RefreshParts {
   refreshToken: string
   clientId?: string
@@ -45,10 +80,61 @@ export interface ManagedAccount {
   failCount: number
   usedCount?: number
   limitCount?: number
+  quotaResetAt?: number
+  label?: string
+  priority?: number
+  allowedModels?: string[]
+  deniedModels?: string[]
+  disabled?: boolean
+  preferred?: boolean
   lastSync?: number
   lastUsed?: number
 }
 
+export type AccountState = Pick<
+  ManagedAccount,
+  | 'id'
+  | 'rateLimitResetTime'
+  | 'isHealthy'
+  | 'unhealthyReason'
+  | 'recoveryTime'
+  | 'failCount'
+  | 'disabled'
+  | 'preferred'
+  | 'label'
+  | 'priority'
+  | 'allowedModels'
+  | 'deniedModels'
+>
+
+export type AccountPoolSettings = Pick<
+  ManagedAccount,
+  'label' | 'priority' | 'allowedModels' | 'deniedModels'
+>
+
+export interface TokenRefreshClaim {
+  status: 'claimed' | 'fresh' | 'busy' | 'missing'
+  account?: ManagedAccount
+}
+
+export interface UsageBreakdown {
+  resourceType: string
+  currentUsage: number
+  usageLimit: number
+  nextResetAt?: number
+  freeTrialUsage?: number
+  freeTrialLimit?: number
+  freeTrialExpiresAt?: number
+}
+
+export interface UsageLimits {
+  usedCount: number
+  limitCount: number
+  email?: string
+  nextResetAt?: number
+  breakdown: UsageBreakdown[]
+}
+
 export interface CodeWhispererMessage {
   userInputMessage?: {
     content: string
@@ -96,13 +182,19 @@ export interface ToolCall {
   input: string | Record<string, unknown>
 }
 
-export interface ParsedResponse {
-  content: string
-  toolCalls: ToolCall[]
-  stopReason?: string
-  inputTokens?: number
-  outputTokens?: number
-}
+export type KiroStreamEvent =
+  | { type: 'assistantResponse'; content: string }
+  | { type: 'toolUse'; toolUseId?: string; name?: string; input: string; stop: boolean }
+  | { type: 'contextUsage'; contextUsagePercentage: number }
+  | { type: 'metering'; unit?: string; usage: number }
+  | {
+      type: 'usage'
+      inputTokens?: number
+      outputTokens?: number
+      cacheReadInputTokens?: number
+      cacheWriteInputTokens?: number
+    }
+  | { type: 'exception'; exceptionType: string; message: string }
 
 export interface PreparedRequest {
   url: string
@@ -112,4 +204,7 @@ export interface PreparedRequest {
   conversationId: string
 }
 
-export type AccountSelectionStrategy = 'sticky' | 'round-robin' | 'lowest-usage'
+export type ResponseFormat = 'openai' | 'anthropic'
+
+export type AccountSelectionStrategy =
+  'sticky' | 'round-robin' | 'lowest-usage' | 'session-affinity' | 'weighted-remaining'
@@ -1,6 +1,6 @@
-import { KiroAuthDetails, ManagedAccount } from './types'
+import { KiroAuthDetails, ManagedAccount, UsageBreakdown, UsageLimits } from './types'
 
-export async function fetchUsageLimits(auth: KiroAuthDetails): Promise<any> {
+export async function fetchUsageLimits(auth: KiroAuthDetails): Promise<UsageLimits> {
   const url = new URL(`https://q.${auth.region}.amazonaws.com/getUsageLimits`)
   url.searchParams.set('isEmailRequired', 'true')
   url.searchParams.set('origin', 'AI_EDITOR')
@@ -36,19 +36,16 @@ export async function fetchUsageLimits(auth: KiroAuthDetails): Promise<any> {
       )
     }
     const data: any = await res.json()
+    const breakdown = parseUsageBreakdown(data)
     let usedCount = 0,
       limitCount = 0
-    if (Array.isArray(data.usageBreakdownList)) {
-      for (const s of data.usageBreakdownList) {
-        if (s.freeTrialInfo) {
-          usedCount += s.freeTrialInfo.currentUsage || 0
-          limitCount += s.freeTrialInfo.usageLimit || 0
-        }
-        usedCount += s.currentUsage || 0
-        limitCount += s.usageLimit || 0
-      }
+    for (const b of breakdown) {
+      usedCount += b.currentUsage + (b.freeTrialUsage || 0)
+      limitCount += b.usageLimit + (b.freeTrialLimit || 0)
     }
-    return { usedCount, limitCount, email: data.userInfo?.email }
+    const resets = breakdown.map((b) => b.nextResetAt).filter((t): t is number => !!t)
+    const nextResetAt = resets.length ? Math.min(...resets) : toEpochMs(data.nextDateReset)
+    return { usedCount, limitCount, email: data.userInfo?.email, nextResetAt, breakdown }
   } catch (e) {
     throw e
   }
@@ -62,10 +59,37 @@ export function updateAccountQuota(
   const meta = {
     usedCount: usage.usedCount || 0,
     limitCount: usage.limitCount || 0,
+    quotaResetAt: usage.nextResetAt,
     email: usage.email
   }
   account.usedCount = meta.usedCount
   account.limitCount = meta.limitCount
+  account.quotaResetAt = meta.quotaResetAt
   if (usage.email) account.email = usage.email
   if (accountManager) accountManager.updateUsage(account.id, meta)
 }
+
+function parseUsageBreakdown(data: any): UsageBreakdown[] {
+  if (!Array.isArray(data.usageBreakdownList)) return []
+  const fallbackReset = toEpochMs(data.nextDateReset)
+  return data.usageBreakdownList.map((s: any) => ({
+    resourceType: s.resourceType || 'UNKNOWN',
+    currentUsage: s.currentUsage || 0,
+    usageLimit: s.usageLimit || 0,
+    nextResetAt: toEpochMs(s.nextDateReset) ?? fallbackReset,
+    freeTrialUsage: s.freeTrialInfo?.currentUsage,
+    freeTrialLimit: s.freeTrialInfo?.usageLimit,
+    freeTrialExpiresAt: toEpochMs(s.freeTrialInfo?.freeTrialExpiry)
+  }))
+}
+
+function toEpochMs(value: unknown): number | undefined {
+  if (typeof value === 'number' && value > 0) {
+    return Math.round(value < 1e12 ? value * 1000 : value)
+  }
+  if (typeof value === 'string' && value) {
+    const parsed = Date.parse(value)
+    return Number.isNaN(parsed) ? undefined : parsed
+  }
+  return undefined
+}